@@ -1,7 +1,46 @@
 // src/FilterHandler.ts
-import { TableData, ColumnDef, FilterRule, FilterOperator, CellData } from './types'; // Adjust path if needed
+import { TableData, ColumnDef, FilterRule, FilterOperator, FilterGroup, FilterConjunction, CellData, SelectTypeOptions, createFilterGroup, isFilterGroup } from './types'; // Adjust path if needed
 import { JsonTableView } from './JsonTableView'; // Adjust path if needed
+import { ViewHandler } from './ViewHandler';
 import { ICON_NAMES, createIconElement } from './icons'; // Adjust path if needed
+import { parseNumber } from './renderers/NumberRenderer';
+import { getCellValue, getEffectiveColumnType } from './computedColumns';
+import { endOfDay, isSameDay, isToday, parseISO, startOfDay, subDays } from 'date-fns';
+
+// Operators for text-like columns (text, note link), also the fallback for unknown types
+const TEXT_OPERATORS: { label: string; value: FilterOperator }[] = [
+  { label: 'Contains', value: 'contains' },
+  { label: 'Does not contain', value: 'doesNotContain' },
+  { label: 'Starts with', value: 'startsWith' },
+  { label: 'Ends with', value: 'endsWith' },
+  { label: 'Is empty', value: 'isEmpty' },
+  { label: 'Is not empty', value: 'isNotEmpty' },
+  { label: 'Equals', value: 'equals' },
+  { label: 'Not equal', value: 'notEqual' },
+];
+
+const DATE_OPERATORS: FilterOperator[] = ['on', 'before', 'after', 'withinLastDays', 'isToday'];
+
+const OPERATORS_WITHOUT_VALUE: FilterOperator[] = ['isEmpty', 'isNotEmpty', 'isToday', 'isChecked', 'isUnchecked'];
+
+// Groups can nest this many levels below the root
+const MAX_GROUP_DEPTH = 2;
+
+/** Counts the rules in a group and all of its nested groups */
+function countRules(group: FilterGroup): number {
+  return group.items.reduce((count, item) => count + (isFilterGroup(item) ? countRules(item) : 1), 0);
+}
+
+/** Splits a comma-separated multiselect value into trimmed, non-empty parts */
+function splitValues(value: string): string[] {
+  return value.split(',').map(part => part.trim()).filter(Boolean);
+}
+
+/** A filter rule's column and the type its values are compared as, resolved once per filtering pass */
+interface RuleColumn {
+  column: ColumnDef | undefined;
+  type: string | undefined;
+}
 
 /**
  * Handles the state, UI, and logic for filtering table rows.
@@ -10,32 +49,81 @@ export class FilterHandler {
   constructor(
     private data: TableData,
     private triggerRender: () => void,
-    private view: JsonTableView // Pass view for saving
+    private view: JsonTableView, // Pass view for saving
+    private viewHandler: ViewHandler // Resolves the active view definition
   ) {
-    // Ensure default view and filter array exist
-    if (!this.data.views?.[0]?.filter) {
-      if (!this.data.views?.[0]) {
-        this.data.views = [{ id: 'default_' + Date.now(), name: 'Default', sort: [], filter: [] }];
-      } else {
-        this.data.views[0].filter = [];
-      }
-    }
+    // Ensure the active view has a root filter group
+    this.getRootFilterGroup();
   }
 
   // --- Helper Methods for Filter State ---
 
-  /** Gets the current filter rules from the first view definition */
-  public getCurrentFilterRules(): FilterRule[] { // Made public if needed elsewhere
-    return this.data.views?.[0]?.filter || [];
+  /** Gets the root filter group from the active view definition */
+  public getRootFilterGroup(): FilterGroup {
+    const activeView = this.viewHandler.getActiveView();
+    if (!activeView.filter) activeView.filter = createFilterGroup();
+    return activeView.filter;
   }
 
-  /** Updates the filter rules in the first view definition */
-  private setCurrentFilterRules(rules: FilterRule[]): void {
-    if (this.data.views?.[0]) {
-      this.data.views[0].filter = rules;
-    } else {
-      console.error("Cannot set filter rules: No view definition found.");
+  /**
+   * Values that make a new row pass the active view's filter, by column ID, so the row stays visible.
+   * Only the root group's own rules are used, and only when it uses AND: every visible row satisfies those.
+   * Rules no single value satisfies (e.g. "contains" or "before") are skipped.
+   */
+  public getNewRowValues(): Record<string, string> {
+    const values: Record<string, string> = {};
+    const root = this.getRootFilterGroup();
+    if (root.conjunction !== 'and') return values;
+    root.items.forEach(item => {
+      if (isFilterGroup(item)) return;
+      const column = this.data.columns.find(col => col.id === item.columnId);
+      const value = column ? this.getValueSatisfyingRule(item, column) : null;
+      if (value !== null) values[item.columnId] = value;
+    });
+    return values;
+  }
+
+  /** The stored value a new cell in the column gets to satisfy the rule, or null if there is no obvious one */
+  private getValueSatisfyingRule(rule: FilterRule, column: ColumnDef): string | null {
+    const ruleValue = rule.value || '';
+    switch (rule.operator) {
+      case 'equals':
+        return ruleValue || null;
+      case 'isChecked':
+        return column.type === 'checkbox' ? 'true' : null;
+      case 'isUnchecked':
+        return column.type === 'checkbox' ? 'false' : null;
+      case 'on': {
+        const date = ruleValue ? parseISO(ruleValue) : null;
+        if (column.type !== 'date' || !date || isNaN(date.getTime())) return null;
+        return String(startOfDay(date).getTime());
+      }
+      case 'hasAnyOf':
+      case 'hasAllOf': {
+        const wanted = splitValues(ruleValue);
+        if (wanted.length === 0) return null;
+        // Any one option satisfies "any of"; only a multi-select cell can hold all of several
+        if (rule.operator === 'hasAnyOf' || wanted.length === 1) return wanted[0];
+        return column.type === 'multiselect' ? wanted.join(',') : null;
+      }
+      default:
+        return null;
+    }
+  }
+
+  /** Creates a rule for the first column with its type's default operator */
+  private createDefaultRule(): FilterRule | null {
+    const defaultColumn = this.data.columns[0];
+    if (!defaultColumn) {
+      console.warn("Cannot add filter: No columns exist.");
+      return null;
     }
+    return {
+      id: `filter_${Date.now()}`,
+      columnId: defaultColumn.id,
+      operator: this.getOperatorsForColumn(defaultColumn)[0].value,
+      value: ''
+    };
   }
 
   // --- UI Methods ---
@@ -62,39 +150,13 @@ export class FilterHandler {
     const filtersContainer = content.createDiv({ cls: 'json-table-filters-list' });
 
     // Use helper for initial render and updates
-    this.rebuildFilterListUI(filtersContainer, popup);
+    this.rebuildFilterListUI(filtersContainer);
 
     // --- Footer ---
     const footer = popup.createEl('div', { cls: 'json-table-popup-footer' });
 
-    // --- "Add Filter" Button ---
-    const addFilterButton = footer.createEl('button', {
-      text: '+ Add Filter',
-      cls: 'json-table-btn json-table-btn--standard'
-    });
-    addFilterButton.addEventListener('click', () => {
-      const defaultColumnId = this.data.columns[0]?.id;
-      if (!defaultColumnId) {
-          console.warn("Cannot add filter: No columns exist.");
-          return;
-      }
-
-      const newRule: FilterRule = {
-        id: `filter_${Date.now()}`,
-        columnId: defaultColumnId,
-        operator: 'contains',
-        value: ''
-      };
-      const currentRules = this.getCurrentFilterRules();
-      currentRules.push(newRule);
-      this.setCurrentFilterRules(currentRules); // Update in memory
-
-      // Rebuild the list UI to include the new empty rule
-      this.rebuildFilterListUI(filtersContainer, popup);
-
-      // Apply and save immediately
-      this.applyFiltersAndRerender();
-    });
+    // --- "Add Filter" / "Add Group" Buttons (root group) ---
+    this.renderAddButtons(footer, this.getRootFilterGroup(), filtersContainer, true);
 
 
     // --- Close popup logic ---
@@ -118,26 +180,124 @@ export class FilterHandler {
   }
 
   /** Helper to rebuild the filter rows UI within the popup */
-  private rebuildFilterListUI(filtersContainer: HTMLElement, popupElement: HTMLElement) {
+  private rebuildFilterListUI(filtersContainer: HTMLElement) {
       filtersContainer.empty(); // Clear previous filter rows
-      const currentRules = this.getCurrentFilterRules();
+      const root = this.getRootFilterGroup();
 
-      if (currentRules.length === 0) {
+      if (root.items.length === 0) {
         filtersContainer.createDiv({ text: 'No filters applied', cls: 'json-table-filter-empty' });
       } else {
-        currentRules.forEach((rule, index) => {
-          // Pass the container where rows should be added
-          this.renderFilterRow(filtersContainer, rule, index);
-        });
+        this.renderGroupItems(filtersContainer, root, filtersContainer, 0);
       }
-      // Note: The "Add Filter" button is outside this container in showFilterPopup,
+      // Note: The root "Add Filter" button is outside this container in showFilterPopup,
       // so it doesn't need to be re-added here.
   }
 
+  /**
+   * Renders each item of a group, prefixed with "Where" for the first item and the
+   * group's conjunction for the rest (the second one is a select to switch AND/OR).
+   */
+  private renderGroupItems(container: HTMLElement, group: FilterGroup, filtersContainer: HTMLElement, depth: number): void {
+    group.items.forEach((item, index) => {
+      const itemDiv = container.createDiv({ cls: 'json-table-filter-item' });
+      const conjunctionCell = itemDiv.createDiv({ cls: 'json-table-filter-conjunction' });
+
+      if (index === 0) {
+        conjunctionCell.setText('Where');
+      } else if (index === 1) {
+        const conjunctionSelect = conjunctionCell.createEl('select', { cls: 'json-table-popup-select' });
+        (['and', 'or'] as FilterConjunction[]).forEach(conjunction => {
+          const option = conjunctionSelect.createEl('option', { text: conjunction.toUpperCase(), value: conjunction });
+          if (conjunction === group.conjunction) option.selected = true;
+        });
+        conjunctionSelect.addEventListener('change', () => {
+          group.conjunction = conjunctionSelect.value as FilterConjunction;
+          this.rebuildFilterListUI(filtersContainer); // Update the labels of the following items
+          this.applyFiltersAndRerender();
+        });
+      } else {
+        conjunctionCell.setText(group.conjunction.toUpperCase());
+      }
+
+      if (isFilterGroup(item)) {
+        this.renderNestedGroup(itemDiv, item, group, filtersContainer, depth + 1);
+      } else {
+        this.renderFilterRow(itemDiv, item, group, filtersContainer);
+      }
+    });
+  }
+
+  /** Renders a nested group as a bordered box with its own items and add buttons */
+  private renderNestedGroup(container: HTMLElement, group: FilterGroup, parent: FilterGroup, filtersContainer: HTMLElement, depth: number): void {
+    const groupDiv = container.createDiv({ cls: 'json-table-filter-group' });
+    const groupHeader = groupDiv.createDiv({ cls: 'json-table-filter-group-header' });
+    groupHeader.createSpan({
+      text: group.conjunction === 'and' ? 'All of the following are true' : 'Any of the following are true',
+      cls: 'json-table-filter-group-label'
+    });
+
+    const deleteButton = groupHeader.createEl('button', {
+      cls: 'json-table-delete-filter-button',
+      attr: { 'aria-label': 'Delete group', title: 'Delete group' }
+    });
+    deleteButton.appendChild(createIconElement(ICON_NAMES.trash, 14));
+    deleteButton.addEventListener('click', () => {
+      parent.items.splice(parent.items.indexOf(group), 1);
+      this.rebuildFilterListUI(filtersContainer);
+      this.applyFiltersAndRerender();
+    });
+
+    if (group.items.length === 0) {
+      groupDiv.createDiv({ text: 'Empty group', cls: 'json-table-filter-empty' });
+    } else {
+      this.renderGroupItems(groupDiv, group, filtersContainer, depth);
+    }
+
+    const groupFooter = groupDiv.createDiv({ cls: 'json-table-filter-group-footer' });
+    this.renderAddButtons(groupFooter, group, filtersContainer, depth < MAX_GROUP_DEPTH);
+  }
+
+  /** Renders "+ Add Filter" and, if nesting is still allowed, "+ Add Group" for a group */
+  private renderAddButtons(container: HTMLElement, group: FilterGroup, filtersContainer: HTMLElement, allowGroups: boolean): void {
+    const addFilterButton = container.createEl('button', {
+      text: '+ Add Filter',
+      cls: 'json-table-btn json-table-btn--standard'
+    });
+    addFilterButton.addEventListener('click', () => {
+      const newRule = this.createDefaultRule();
+      if (!newRule) return;
+      group.items.push(newRule);
+
+      // Rebuild the list UI to include the new empty rule
+      this.rebuildFilterListUI(filtersContainer);
+
+      // Apply and save immediately
+      this.applyFiltersAndRerender();
+    });
+
+    if (!allowGroups) return;
+    const addGroupButton = container.createEl('button', {
+      text: '+ Add Group',
+      cls: 'json-table-btn json-table-btn--standard'
+    });
+    addGroupButton.addEventListener('click', () => {
+      const newRule = this.createDefaultRule();
+      if (!newRule) return;
+      // New groups start with one rule and the opposite conjunction, which is why you'd nest
+      const newGroup = createFilterGroup(group.conjunction === 'and' ? 'or' : 'and');
+      newGroup.items.push(newRule);
+      group.items.push(newGroup);
+      this.rebuildFilterListUI(filtersContainer);
+      this.applyFiltersAndRerender();
+    });
+  }
+
   /** Renders a single row in the filter popup */
-  private renderFilterRow(container: HTMLElement, rule: FilterRule, index: number): void {
+  private renderFilterRow(container: HTMLElement, rule: FilterRule, group: FilterGroup, filtersContainer: HTMLElement): void {
     const rowDiv = container.createDiv({ cls: 'json-table-filter-row' });
 
+    const column = this.data.columns.find(col => col.id === rule.columnId);
+
     // Column Select
     const columnSelect = rowDiv.createEl('select', { cls: 'json-table-popup-select' });
     this.data.columns.forEach(col => {
@@ -146,90 +306,193 @@ export class FilterHandler {
     });
     columnSelect.addEventListener('change', () => {
       rule.columnId = columnSelect.value;
+      // Operators depend on the column type; fall back to the first valid one
+      const validOperators = this.getOperatorsForColumn(this.data.columns.find(col => col.id === rule.columnId));
+      if (!validOperators.some(op => op.value === rule.operator)) {
+        rule.operator = validOperators[0].value;
+        rule.value = ''; // The old value rarely means anything for a different type
+        delete rule.valueTo;
+      }
+      this.rebuildFilterListUI(filtersContainer); // Refresh operator/value inputs for the new type
       this.applyFiltersAndRerender(); // Apply immediately on change
     });
 
     // Operator Select
     const operatorSelect = rowDiv.createEl('select', { cls: 'json-table-popup-select' });
-    const operators: { label: string; value: FilterOperator }[] = [
-      { label: 'Contains', value: 'contains' },
-      { label: 'Does not contain', value: 'doesNotContain' },
-      { label: 'Starts with', value: 'startsWith' },
-      { label: 'Ends with', value: 'endsWith' },
-      { label: 'Is empty', value: 'isEmpty' },
-      { label: 'Is not empty', value: 'isNotEmpty' },
-      { label: 'Equals', value: 'equals' },
-      { label: 'Not equal', value: 'notEqual' },
-    ];
+    const operators = this.getOperatorsForColumn(column).slice();
+    // Rules saved before typed operators existed keep their text operator until changed
+    const legacyOperator = TEXT_OPERATORS.find(op => op.value === rule.operator);
+    if (legacyOperator && !operators.some(op => op.value === rule.operator)) operators.push(legacyOperator);
     operators.forEach(op => {
       const option = operatorSelect.createEl('option', { text: op.label, value: op.value });
       if (op.value === rule.operator) option.selected = true;
     });
     operatorSelect.addEventListener('change', () => {
       rule.operator = operatorSelect.value as FilterOperator;
-      // Show/hide value input based on operator
-      if (rule.operator === 'isEmpty' || rule.operator === 'isNotEmpty') {
-        valueInput.addClass('is-hidden');
-      } else {
-        valueInput.removeClass('is-hidden');
-      }
-      this.applyFiltersAndRerender();
-    });
-
-    // Value Input
-    const valueInput = rowDiv.createEl('input', {
-      type: 'text',
-      value: rule.value || '',
-      cls: 'json-table-popup-input'
-    });
-    // Initial state
-    if (rule.operator === 'isEmpty' || rule.operator === 'isNotEmpty') {
-      valueInput.addClass('is-hidden');
-    }
-    // Apply on blur or change instead of input for less frequent updates? Your choice.
-    valueInput.addEventListener('blur', () => { // Changed from 'input'
-      rule.value = valueInput.value;
+      // Show/hide value inputs based on operator
+      this.renderValueInputs(valueContainer, rule, column);
       this.applyFiltersAndRerender();
     });
-     // Optional: Apply on Enter key as well
-     valueInput.addEventListener('keydown', (e) => {
-         if (e.key === 'Enter') {
-             rule.value = valueInput.value;
-             this.applyFiltersAndRerender();
-         }
-     });
 
+    // Value Input(s)
+    const valueContainer = rowDiv.createDiv({ cls: 'json-table-filter-value' });
+    this.renderValueInputs(valueContainer, rule, column);
 
     // Delete Button
     const deleteButton = rowDiv.createEl('button', { cls: 'json-table-delete-filter-button' });
     const trashIcon = createIconElement(ICON_NAMES.trash, 14);
     deleteButton.appendChild(trashIcon);
     deleteButton.addEventListener('click', async () => { // Make async
-      const currentRules = this.getCurrentFilterRules();
-      currentRules.splice(index, 1); // Remove rule by index
-      this.setCurrentFilterRules(currentRules); // Update in-memory rules
+      group.items.splice(group.items.indexOf(rule), 1); // Remove rule from its group
 
       // Save, re-render main table, THEN re-render popup list
       await this.view.saveTableData(this.data); // Save the change
       this.triggerRender(); // Re-render the main table (applies filter)
+      this.rebuildFilterListUI(filtersContainer);
+    });
+  } // End renderFilterRow
 
-      // Find the popup and re-render its filter list content
-      const parentPopup = container.closest('.json-table-filter-popup');
-      const filtersListContainer = parentPopup?.querySelector('.json-table-filters-list');
-      if (filtersListContainer && parentPopup) { // Ensure both exist
-          // Rebuild the list content
-          this.rebuildFilterListUI(filtersListContainer as HTMLElement, parentPopup as HTMLElement);
-      } else {
-          console.error("Could not find filter list container/popup to re-render after delete.");
+  /** Returns the operators that make sense for a column's type (a formula's result type for formula columns) */
+  private getOperatorsForColumn(column: ColumnDef | undefined): { label: string; value: FilterOperator }[] {
+    switch (column ? getEffectiveColumnType(this.data, column) : undefined) {
+      case 'number':
+        return [
+          { label: '=', value: 'equals' },
+          { label: '≠', value: 'notEqual' },
+          { label: '>', value: 'greaterThan' },
+          { label: '<', value: 'lessThan' },
+          { label: '≥', value: 'greaterOrEqual' },
+          { label: '≤', value: 'lessOrEqual' },
+          { label: 'Between', value: 'between' },
+          { label: 'Is empty', value: 'isEmpty' },
+          { label: 'Is not empty', value: 'isNotEmpty' },
+        ];
+      case 'date':
+        return [
+          { label: 'Is on', value: 'on' },
+          { label: 'Is before', value: 'before' },
+          { label: 'Is after', value: 'after' },
+          { label: 'Within last N days', value: 'withinLastDays' },
+          { label: 'Is today', value: 'isToday' },
+          { label: 'Is empty', value: 'isEmpty' },
+          { label: 'Is not empty', value: 'isNotEmpty' },
+        ];
+      case 'checkbox':
+        return [
+          { label: 'Is checked', value: 'isChecked' },
+          { label: 'Is unchecked', value: 'isUnchecked' },
+        ];
+      case 'dropdown':
+      case 'multiselect':
+        return [
+          { label: 'Has any of', value: 'hasAnyOf' },
+          { label: 'Has all of', value: 'hasAllOf' },
+          { label: 'Has none of', value: 'hasNoneOf' },
+          { label: 'Is empty', value: 'isEmpty' },
+          { label: 'Is not empty', value: 'isNotEmpty' },
+        ];
+      default:
+        return TEXT_OPERATORS;
+    }
+  }
+
+  /** Renders the value picker for a rule, matching the column type and operator */
+  private renderValueInputs(valueContainer: HTMLElement, rule: FilterRule, column: ColumnDef | undefined): void {
+    valueContainer.empty();
+    if (OPERATORS_WITHOUT_VALUE.includes(rule.operator)) {
+      return; // No value needed
+    }
+
+    const createInput = (type: string, initialValue: string, placeholder: string, onCommit: (value: string) => void) => {
+      const valueInput = valueContainer.createEl('input', {
+        type: type,
+        value: initialValue,
+        placeholder: placeholder,
+        cls: 'json-table-popup-input'
+      });
+      // Apply on blur or change instead of input for less frequent updates? Your choice.
+      valueInput.addEventListener('blur', () => { // Changed from 'input'
+        onCommit(valueInput.value);
+        this.applyFiltersAndRerender();
+      });
+      // Optional: Apply on Enter key as well
+      valueInput.addEventListener('keydown', (e) => {
+        if (e.key === 'Enter') {
+          onCommit(valueInput.value);
+          this.applyFiltersAndRerender();
+        }
+      });
+      return valueInput;
+    };
+
+    switch (rule.operator) {
+      case 'between':
+        createInput('text', rule.value || '', 'From', value => { rule.value = value; });
+        createInput('text', rule.valueTo || '', 'To', value => { rule.valueTo = value; });
+        break;
+      case 'on':
+      case 'before':
+      case 'after':
+        // Native date picker; stored as YYYY-MM-DD so the rule stays readable in the file
+        createInput('date', rule.value || '', 'Date', value => { rule.value = value; });
+        break;
+      case 'withinLastDays': {
+        const daysInput = createInput('number', rule.value || '', 'Days', value => { rule.value = value; });
+        daysInput.min = '1';
+        break;
       }
+      case 'hasAnyOf':
+      case 'hasAllOf':
+      case 'hasNoneOf':
+        this.renderOptionPicker(valueContainer, rule, column);
+        break;
+      default:
+        createInput('text', rule.value || '', 'Value', value => { rule.value = value; });
+    }
+  }
+
+  /** Renders the column's options as toggleable tags; selected values are stored comma-separated */
+  private renderOptionPicker(valueContainer: HTMLElement, rule: FilterRule, column: ColumnDef | undefined): void {
+    const options = (column?.typeOptions as SelectTypeOptions | undefined)?.options || [];
+    const picker = valueContainer.createDiv({ cls: 'json-table-filter-options' });
+    if (options.length === 0) {
+      picker.createSpan({ text: 'No options defined', cls: 'json-table-dropdown-placeholder' });
+      return;
+    }
+
+    const selected = splitValues(rule.value || '');
+    options.forEach(option => {
+      const tag = picker.createEl('span', {
+        text: option.value,
+        cls: `json-table-dropdown-tag dropdown-tag--${option.style || 'default'}`,
+        attr: { role: 'checkbox', tabindex: 0 }
+      });
+      const updateState = () => {
+        const isSelected = selected.includes(option.value);
+        tag.toggleClass('is-selected', isSelected);
+        tag.setAttr('aria-checked', isSelected ? 'true' : 'false');
+      };
+      updateState();
+
+      const toggle = () => {
+        const index = selected.indexOf(option.value);
+        if (index === -1) selected.push(option.value); else selected.splice(index, 1);
+        rule.value = selected.join(',');
+        updateState();
+        this.applyFiltersAndRerender();
+      };
+      tag.addEventListener('click', toggle);
+      tag.addEventListener('keydown', (e) => {
+        if (e.key === 'Enter' || e.key === ' ') { e.preventDefault(); toggle(); }
+      });
     });
-  } // End renderFilterRow
+  }
 
   // --- Filtering Logic ---
 
   /** Applies filters, saves the data, and triggers a table re-render */
   private async applyFiltersAndRerender(): Promise<void> {
-    // setCurrentFilterRules was already called by UI event handlers updating the rule object directly
+    // UI event handlers already updated the rule/group objects directly
     try {
         await this.view.saveTableData(this.data); // Save the updated filter rules
         this.triggerRender(); // Re-render the table UI
@@ -240,58 +503,179 @@ export class FilterHandler {
   }
 
   /**
-   * Filters the full row data based on current rules defined in the view.
-   * @returns A new array containing only the rows that match ALL active filters.
+   * Filters the full row data based on the view's filter groups.
+   * @returns A new array containing only the rows that match the root group.
    */
   public getFilteredRows(): CellData[][] {
-    const rules = this.getCurrentFilterRules();
+    const root = this.getRootFilterGroup();
     // If no filters, return all rows immediately
-    if (rules.length === 0) {
+    if (!this.hasActiveFilters()) {
       return this.data.rows;
     }
 
+    // Resolve each rule's column and type once; a formula's type is found by computing it down the table
+    const ruleColumns = new Map<FilterRule, RuleColumn>();
+    this.collectRules(root).forEach(rule => {
+      const column = this.data.columns.find(c => c.id === rule.columnId);
+      ruleColumns.set(rule, { column: column, type: column ? getEffectiveColumnType(this.data, column) : undefined });
+    });
 
     // Filter the main rows array
-    return this.data.rows.filter(row => {
-      // Check if the row satisfies ALL filter rules (AND logic)
-      return rules.every(rule => {
-        const cell = row.find(c => c.column === rule.columnId);
-        // Treat missing cell value as empty string for comparisons
-        const cellValue = cell?.value || '';
-        // Treat missing filter rule value as empty string
-        const filterValue = rule.value || '';
-        // Use lowercase for case-insensitive text comparisons
-        const cellValueLower = cellValue.toLowerCase();
-        const filterValueLower = filterValue.toLowerCase();
-
-        switch (rule.operator) {
-          case 'contains':
-            return cellValueLower.includes(filterValueLower);
-          case 'doesNotContain':
-            return !cellValueLower.includes(filterValueLower);
-          case 'startsWith':
-            return cellValueLower.startsWith(filterValueLower);
-          case 'endsWith':
-            return cellValueLower.endsWith(filterValueLower);
-          case 'isEmpty':
-            return cellValue === ''; // Check exact empty string
-          case 'isNotEmpty':
-            return cellValue !== '';
-          case 'equals':
-             return cellValueLower === filterValueLower; // Case-insensitive equals
-          case 'notEqual':
-             return cellValueLower !== filterValueLower; // Case-insensitive not equal
-          default:
-            console.warn(`Unknown filter operator: ${rule.operator}`);
-            return true; // Don't filter out row if operator is unknown
-        }
-      }); // End rules.every
-    }); // End this.data.rows.filter
+    return this.data.rows.filter(row => this.matchesGroup(row, root, ruleColumns));
   } // End getFilteredRows
 
+  /** All rules in a group and its nested groups */
+  private collectRules(group: FilterGroup): FilterRule[] {
+    return group.items.reduce((rules: FilterRule[], item) =>
+      rules.concat(isFilterGroup(item) ? this.collectRules(item) : [item]), []);
+  }
+
+  /** A group matches when all (AND) or any (OR) of its items match; empty groups match everything */
+  private matchesGroup(row: CellData[], group: FilterGroup, ruleColumns: Map<FilterRule, RuleColumn>): boolean {
+    if (group.items.length === 0) return true;
+    const matchesItem = (item: FilterRule | FilterGroup) =>
+      isFilterGroup(item) ? this.matchesGroup(row, item, ruleColumns) : this.matchesRule(row, item, ruleColumns.get(item));
+    return group.conjunction === 'or' ? group.items.some(matchesItem) : group.items.every(matchesItem);
+  }
+
+  /** Checks a single rule against a row */
+  private matchesRule(row: CellData[], rule: FilterRule, ruleColumn: RuleColumn | undefined): boolean {
+    const column = ruleColumn?.column;
+    // Treat missing cell value as empty string for comparisons; formula and rollup columns use their computed value
+    const cellValue = column ? getCellValue(this.data, row, column, this.view.relatedTables) : '';
+    // Treat missing filter rule value as empty string
+    const filterValue = rule.value || '';
+
+    // Number columns compare numerically
+    const columnType = ruleColumn?.type;
+    if (columnType === 'number' && rule.operator !== 'isEmpty' && rule.operator !== 'isNotEmpty') {
+      return this.matchesNumberRule(cellValue, rule);
+    }
+    if (columnType === 'date' && DATE_OPERATORS.includes(rule.operator)) {
+      return this.matchesDateRule(cellValue, rule);
+    }
+
+    // Use lowercase for case-insensitive text comparisons
+    const cellValueLower = cellValue.toLowerCase();
+    const filterValueLower = filterValue.toLowerCase();
+
+    switch (rule.operator) {
+      case 'contains':
+        return cellValueLower.includes(filterValueLower);
+      case 'doesNotContain':
+        return !cellValueLower.includes(filterValueLower);
+      case 'startsWith':
+        return cellValueLower.startsWith(filterValueLower);
+      case 'endsWith':
+        return cellValueLower.endsWith(filterValueLower);
+      case 'isEmpty':
+        return cellValue === ''; // Check exact empty string
+      case 'isNotEmpty':
+        return cellValue !== '';
+      case 'equals':
+         return cellValueLower === filterValueLower; // Case-insensitive equals
+      case 'notEqual':
+         return cellValueLower !== filterValueLower; // Case-insensitive not equal
+      case 'isChecked':
+        return cellValue === 'true';
+      case 'isUnchecked':
+        return cellValue !== 'true';
+      case 'hasAnyOf':
+      case 'hasAllOf':
+      case 'hasNoneOf':
+        return this.matchesOptionRule(cellValue, rule);
+      default:
+        console.warn(`Unknown filter operator: ${rule.operator}`);
+        return true; // Don't filter out row if operator is unknown
+    }
+  }
+
+  /** Evaluates a numeric operator; rows with an empty or non-numeric value never match */
+  private matchesNumberRule(cellValue: string, rule: FilterRule): boolean {
+    const cellNumber = parseNumber(cellValue);
+    const filterNumber = parseNumber(rule.value || '');
+    if (filterNumber === null) return true; // Incomplete rule: don't filter anything out yet
+    if (cellNumber === null) return rule.operator === 'notEqual';
+
+    switch (rule.operator) {
+      case 'equals':
+        return cellNumber === filterNumber;
+      case 'notEqual':
+        return cellNumber !== filterNumber;
+      case 'greaterThan':
+        return cellNumber > filterNumber;
+      case 'lessThan':
+        return cellNumber < filterNumber;
+      case 'greaterOrEqual':
+        return cellNumber >= filterNumber;
+      case 'lessOrEqual':
+        return cellNumber <= filterNumber;
+      case 'between': {
+        const upperBound = parseNumber(rule.valueTo || '');
+        // Inclusive on both ends; a missing upper bound behaves like "at least"
+        return cellNumber >= filterNumber && (upperBound === null || cellNumber <= upperBound);
+      }
+      default:
+        console.warn(`Unsupported operator for number column: ${rule.operator}`);
+        return true;
+    }
+  }
+
+  /** Evaluates a date operator against a stored timestamp; comparisons are by calendar day */
+  private matchesDateRule(cellValue: string, rule: FilterRule): boolean {
+    const timestamp = parseInt(cellValue, 10);
+    const cellDate = isNaN(timestamp) ? null : new Date(timestamp);
+
+    if (rule.operator === 'isToday') {
+      return cellDate !== null && isToday(cellDate);
+    }
+
+    if (rule.operator === 'withinLastDays') {
+      const days = parseInt(rule.value || '', 10);
+      if (isNaN(days) || days < 1) return true; // Incomplete rule: don't filter anything out yet
+      if (!cellDate) return false;
+      // "Last 7 days" means today plus the six days before it
+      const start = startOfDay(subDays(new Date(), days - 1));
+      return cellDate >= start && cellDate <= endOfDay(new Date());
+    }
+
+    const filterDate = rule.value ? parseISO(rule.value) : null;
+    if (!filterDate || isNaN(filterDate.getTime())) return true; // Incomplete rule
+    if (!cellDate) return false;
+
+    switch (rule.operator) {
+      case 'on':
+        return isSameDay(cellDate, filterDate);
+      case 'before':
+        return cellDate < startOfDay(filterDate);
+      case 'after':
+        return cellDate > endOfDay(filterDate);
+      default:
+        return true;
+    }
+  }
+
+  /** Evaluates has any/all/none of against a dropdown or comma-separated multiselect value */
+  private matchesOptionRule(cellValue: string, rule: FilterRule): boolean {
+    const wanted = splitValues(rule.value || '');
+    if (wanted.length === 0) return true; // Nothing picked yet: don't filter anything out
+    const cellValues = splitValues(cellValue);
+
+    switch (rule.operator) {
+      case 'hasAnyOf':
+        return wanted.some(value => cellValues.includes(value));
+      case 'hasAllOf':
+        return wanted.every(value => cellValues.includes(value));
+      case 'hasNoneOf':
+        return !wanted.some(value => cellValues.includes(value));
+      default:
+        return true;
+    }
+  }
+
    /** Checks if any filters are currently active */
    public hasActiveFilters(): boolean {
-       return this.getCurrentFilterRules().length > 0;
+       return countRules(this.getRootFilterGroup()) > 0;
    }
 
 } // End FilterHandler class
\ No newline at end of file
@@ -0,0 +1,257 @@
+// src/GroupHandler.ts
+
+import { format, startOfDay, startOfMonth, startOfWeek } from 'date-fns';
+import { CellData, ColumnDef, DateGroupInterval, DropdownOption, GroupRule, SelectTypeOptions, TableData } from './types';
+import { JsonTableView } from './JsonTableView';
+import { ViewHandler } from './ViewHandler';
+
+// Column types rows can be grouped by
+const GROUPABLE_TYPES = ['dropdown', 'multiselect', 'checkbox', 'date', 'text'];
+
+/** A section of rows sharing one value of the grouping column */
+export interface RowGroup {
+  key: string; // Identifies the group in the view's collapsedGroups
+  label: string;
+  value: string; // Cell value given to rows added to this group
+  tags?: DropdownOption[]; // Options shown as coloured tags (dropdown and multi-select groups)
+  rows: CellData[][]; // In display (sorted) order
+}
+
+/**
+ * Handles grouping the active view's rows by one column into collapsible sections.
+ * Dropdown and multi-select groups follow the column's option order; dates are bucketed by day, week or month.
+ */
+export class GroupHandler {
+
+  constructor(
+    private data: TableData,
+    private triggerRender: () => void,
+    private view: JsonTableView,
+    private viewHandler: ViewHandler
+  ) {}
+
+  // --- Group State ---
+
+  /** The column the active view is grouped by, or null if it isn't grouped (or the column can't be) */
+  public getGroupColumn(): ColumnDef | null {
+    const columnId = this.viewHandler.getActiveView().groupBy?.columnId;
+    const column = this.data.columns.find(col => col.id === columnId);
+    return column && GROUPABLE_TYPES.includes(column.type) ? column : null;
+  }
+
+  private getDateInterval(): DateGroupInterval {
+    return this.viewHandler.getActiveView().groupBy?.dateInterval || 'day';
+  }
+
+  private async setGroupRule(rule: GroupRule | undefined) {
+    const activeView = this.viewHandler.getActiveView();
+    activeView.groupBy = rule;
+    delete activeView.collapsedGroups; // Keys of the old grouping mean nothing for the new one
+    await this.view.saveTableData(this.data);
+    this.triggerRender();
+  }
+
+  public isCollapsed(group: RowGroup): boolean {
+    return (this.viewHandler.getActiveView().collapsedGroups || []).includes(group.key);
+  }
+
+  /** Expands a group without saving or re-rendering (the caller does both) */
+  public expand(group: RowGroup) {
+    const activeView = this.viewHandler.getActiveView();
+    if (activeView.collapsedGroups) activeView.collapsedGroups = activeView.collapsedGroups.filter(key => key !== group.key);
+  }
+
+  /** Collapses or expands a group in the active view */
+  public async toggleCollapsed(group: RowGroup) {
+    const activeView = this.viewHandler.getActiveView();
+    const collapsed = (activeView.collapsedGroups || []).filter(key => key !== group.key);
+    if (!this.isCollapsed(group)) collapsed.push(group.key);
+    activeView.collapsedGroups = collapsed;
+    await this.view.saveTableData(this.data);
+    this.triggerRender();
+  }
+
+  // --- UI Method ---
+
+  /** Displays the popup for choosing the grouping column (and date interval) */
+  public showGroupPopup(button: HTMLButtonElement): void {
+    const existingPopup = document.querySelector('.json-table-group-popup');
+    if (existingPopup) existingPopup.remove();
+
+    const popup = document.body.createEl('div', { cls: 'json-table-popup json-table-group-popup' });
+    const rect = button.getBoundingClientRect();
+    popup.style.top = `${rect.bottom + 5}px`;
+    popup.style.left = `${rect.left}px`;
+
+    // --- Header ---
+    const header = popup.createEl('div', { cls: 'json-table-popup-header' });
+    header.createEl('h3', { text: 'Group', cls: 'json-table-popup-title' });
+
+    // --- Content ---
+    const content = popup.createEl('div', { cls: 'json-table-popup-content' });
+    const groupColumn = this.getGroupColumn();
+
+    content.createEl('label', { cls: 'json-table-popup-label', text: 'Group by:' });
+    const columnSelect = content.createEl('select', { cls: 'json-table-popup-select' });
+    columnSelect.createEl('option', { text: 'None', value: '' });
+    this.data.columns
+      .filter(col => GROUPABLE_TYPES.includes(col.type))
+      .forEach(col => {
+        const option = columnSelect.createEl('option', { text: col.name, value: col.id });
+        if (col.id === groupColumn?.id) option.selected = true;
+      });
+    columnSelect.addEventListener('change', async () => {
+      await this.setGroupRule(columnSelect.value ? { columnId: columnSelect.value } : undefined);
+      closePopup();
+    });
+
+    if (groupColumn?.type === 'date') {
+      content.createEl('label', { cls: 'json-table-popup-label', text: 'Interval:' });
+      const intervalSelect = content.createEl('select', { cls: 'json-table-popup-select' });
+      const intervals: { value: DateGroupInterval; text: string }[] = [
+        { value: 'day', text: 'Day' },
+        { value: 'week', text: 'Week' },
+        { value: 'month', text: 'Month' },
+      ];
+      intervals.forEach(interval => {
+        const option = intervalSelect.createEl('option', { text: interval.text, value: interval.value });
+        if (interval.value === this.getDateInterval()) option.selected = true;
+      });
+      intervalSelect.addEventListener('change', async () => {
+        await this.setGroupRule({ columnId: groupColumn.id, dateInterval: intervalSelect.value as DateGroupInterval });
+        closePopup();
+      });
+    }
+
+    // --- Close popup logic ---
+    const closePopup = () => {
+      popup.remove();
+      document.removeEventListener('click', clickOutside, true);
+    };
+
+    const clickOutside = (e: MouseEvent) => {
+      if (!popup.contains(e.target as Node) && !button.contains(e.target as Node)) {
+        closePopup();
+      }
+    };
+
+    setTimeout(() => {
+      document.addEventListener('click', clickOutside, true);
+    }, 0);
+  }
+
+  // --- Grouping Logic ---
+
+  /**
+   * Splits the (already filtered and sorted) rows into groups, keeping their order within each group.
+   * Groups are ordered by option order for dropdowns and multi-selects, checked before unchecked,
+   * chronologically for dates and alphabetically for text; the empty group comes last.
+   */
+  public getGroups(rows: CellData[][]): RowGroup[] {
+    const column = this.getGroupColumn();
+    if (!column) return [];
+
+    const groups = new Map<string, RowGroup>();
+    rows.forEach(row => {
+      const value = row.find(cell => cell.column === column.id)?.value || '';
+      const key = this.getGroupKey(column, value);
+      let group = groups.get(key);
+      if (!group) {
+        group = this.createGroup(column, key);
+        groups.set(key, group);
+      }
+      group.rows.push(row);
+    });
+
+    const result: RowGroup[] = [];
+    groups.forEach(group => result.push(group));
+    return result.sort((a, b) => this.compareGroups(column, a, b));
+  }
+
+  /** Normalises a cell value to the key of the group it belongs to */
+  private getGroupKey(column: ColumnDef, value: string): string {
+    switch (column.type) {
+      case 'checkbox':
+        return value === 'true' ? 'true' : 'false';
+      case 'date': {
+        const timestamp = parseInt(value, 10);
+        if (isNaN(timestamp)) return '';
+        const date = new Date(timestamp);
+        const interval = this.getDateInterval();
+        const start = interval === 'month' ? startOfMonth(date)
+          : interval === 'week' ? startOfWeek(date, { weekStartsOn: 1 })
+          : startOfDay(date);
+        return start.getTime().toString();
+      }
+      case 'multiselect': {
+        // Same options in any order belong together; list them in option order
+        const values = value.split(',').map(item => item.trim()).filter(item => item !== '');
+        return values.sort((a, b) => this.getOptionIndex(column, a) - this.getOptionIndex(column, b)).join(',');
+      }
+      default: // dropdown, text
+        return value.trim();
+    }
+  }
+
+  private createGroup(column: ColumnDef, key: string): RowGroup {
+    const group: RowGroup = { key: key, label: key, value: key, rows: [] };
+    if (key === '' && column.type !== 'checkbox') {
+      group.label = `No ${column.name}`;
+      return group;
+    }
+    switch (column.type) {
+      case 'checkbox':
+        group.label = key === 'true' ? 'Checked' : 'Unchecked';
+        break;
+      case 'date': {
+        const date = new Date(parseInt(key, 10));
+        const interval = this.getDateInterval();
+        group.label = interval === 'month' ? format(date, 'MMMM yyyy')
+          : interval === 'week' ? `Week of ${format(date, 'MMM d, yyyy')}`
+          : format(date, 'EEE, MMM d, yyyy');
+        break;
+      }
+      case 'dropdown':
+      case 'multiselect': {
+        const options = (column.typeOptions as SelectTypeOptions | undefined)?.options || [];
+        group.tags = key.split(',').map(item => options.find(opt => opt.value === item) || { value: item });
+        group.label = key.split(',').join(', ');
+        break;
+      }
+    }
+    return group;
+  }
+
+  /** Position of an option in the column's option list; unknown values sort after all options */
+  private getOptionIndex(column: ColumnDef, value: string): number {
+    const options = (column.typeOptions as SelectTypeOptions | undefined)?.options || [];
+    const index = options.findIndex(opt => opt.value === value);
+    return index === -1 ? options.length : index;
+  }
+
+  private compareGroups(column: ColumnDef, a: RowGroup, b: RowGroup): number {
+    if (column.type === 'checkbox') return a.key === b.key ? 0 : (a.key === 'true' ? -1 : 1);
+    // The empty group always comes last
+    if (a.key === '' || b.key === '') return (a.key === '' ? 1 : 0) - (b.key === '' ? 1 : 0);
+
+    switch (column.type) {
+      case 'date':
+        return parseInt(a.key, 10) - parseInt(b.key, 10);
+      case 'dropdown':
+      case 'multiselect': {
+        // Compare option positions item by item, so "A" comes before "A, B" before "B"
+        const aItems = a.key.split(',');
+        const bItems = b.key.split(',');
+        for (let i = 0; i < Math.min(aItems.length, bItems.length); i++) {
+          const diff = this.getOptionIndex(column, aItems[i]) - this.getOptionIndex(column, bItems[i]);
+          if (diff !== 0) return diff;
+          const byName = aItems[i].localeCompare(bItems[i]); // Both unknown values
+          if (byName !== 0) return byName;
+        }
+        return aItems.length - bItems.length;
+      }
+      default:
+        return a.key.localeCompare(b.key, undefined, { numeric: true, sensitivity: 'base' });
+    }
+  }
+}
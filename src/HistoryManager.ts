@@ -0,0 +1,99 @@
+// src/HistoryManager.ts
+
+import { TableData } from './types';
+
+// Oldest entries are dropped past this many undo steps
+const MAX_HISTORY = 100;
+// ...or once the stored snapshots (undo and redo) pass this many characters, so large tables keep fewer steps
+const MAX_HISTORY_CHARS = 20_000_000;
+
+/** A saved state: columns and rows, and the views as they were at that point */
+interface HistoryEntry {
+  content: string; // JSON of columns and rows
+  views: string; // JSON of views
+}
+
+/** What undo and redo hand back to be restored */
+export type HistorySnapshot = Pick<TableData, 'columns' | 'rows' | 'views'>;
+
+/**
+ * Undo/redo stack for one table view.
+ * Every save is compared against the last known state; if the columns or rows changed,
+ * the previous state becomes an undo step. View changes alone (tabs, sort, filter, hidden
+ * columns) never create undo steps, but each step keeps the views it was saved with, so undoing
+ * e.g. a column deletion also brings back the sort, filter and hidden-column settings that used it.
+ */
+export class HistoryManager {
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+  private current: HistoryEntry | null = null; // Snapshot of the last saved state
+
+  /** Forgets all history and starts tracking from the given (freshly loaded) data */
+  public reset(data: TableData | null) {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.current = data ? this.snapshot(data) : null;
+  }
+
+  /** Records the data being saved; adds an undo step if its columns or rows differ from the previous state */
+  public record(data: TableData) {
+    const next = this.snapshot(data);
+    if (this.current === null || next.content === this.current.content) {
+      this.current = next; // Keeps the latest views with the current step
+      return;
+    }
+    this.undoStack.push(this.current);
+    this.redoStack = []; // A new edit invalidates anything that was undone
+    this.current = next;
+    this.trim();
+  }
+
+  public canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  public canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /** Steps back one state. @returns The data to restore, or null if there is nothing to undo */
+  public undo(): HistorySnapshot | null {
+    const previous = this.undoStack.pop();
+    if (previous === undefined || this.current === null) return null;
+    this.redoStack.push(this.current);
+    this.current = previous;
+    return this.restore(previous);
+  }
+
+  /** Re-applies the last undone state. @returns The data to restore, or null if there is nothing to redo */
+  public redo(): HistorySnapshot | null {
+    const next = this.redoStack.pop();
+    if (next === undefined || this.current === null) return null;
+    this.undoStack.push(this.current);
+    this.current = next;
+    return this.restore(next);
+  }
+
+  private snapshot(data: TableData): HistoryEntry {
+    return {
+      content: JSON.stringify({ columns: data.columns, rows: data.rows }),
+      views: JSON.stringify(data.views),
+    };
+  }
+
+  private restore(entry: HistoryEntry): HistorySnapshot {
+    const { columns, rows } = JSON.parse(entry.content);
+    return { columns: columns, rows: rows, views: JSON.parse(entry.views) };
+  }
+
+  /** Drops the oldest undo steps past the count or size limit; the most recent step is always kept */
+  private trim() {
+    const size = (entries: HistoryEntry[]) =>
+      entries.reduce((total, entry) => total + entry.content.length + entry.views.length, 0);
+    let storedChars = size(this.undoStack) + size(this.redoStack);
+    while (this.undoStack.length > 1 && (this.undoStack.length > MAX_HISTORY || storedChars > MAX_HISTORY_CHARS)) {
+      const dropped = this.undoStack.shift() as HistoryEntry;
+      storedChars -= dropped.content.length + dropped.views.length;
+    }
+  }
+}
@@ -1,14 +1,28 @@
 // src/JsonTableView.ts
-import { ItemView, WorkspaceLeaf, TFile, App, ViewStateResult } from 'obsidian'; // Changed base class, added ViewStateResult
-import { TableData, VIEW_TYPE_JSON_TABLE, JsonTableSettings, DEFAULT_SETTINGS } from './types';
+import { ItemView, WorkspaceLeaf, TFile, TAbstractFile, App, ViewStateResult, Notice, Scope, Menu, debounce } from 'obsidian'; // Changed base class, added ViewStateResult
+import { TableData, VIEW_TYPE_JSON_TABLE, JsonTableSettings, DEFAULT_SETTINGS, RelationTypeOptions } from './types';
 import { TableRenderer } from './TableRenderer';
+import { HistoryManager, HistorySnapshot } from './HistoryManager';
 import { ITableFileHandler } from './fileHandlers/ITableFileHandler';
 import { JsonFileHandler } from './fileHandlers/JsonFileHandler';
 import { MarkdownFileHandler } from './fileHandlers/MarkdownFileHandler';
+import { ConflictModal, ConflictChoice } from './modals/ConflictModal';
+import { RelatedTables } from './relations/RelatedTables';
+import { CsvMergeModal } from './modals/CsvMergeModal';
+import { parseCsvFile } from './csv/CsvParser';
+import { mergeIntoTable, prepareCsvImport } from './csv/csvImport';
+import { ExportOptions, buildCsv } from './csv/csvExport';
+import { CsvExportModal, ExportDestination } from './modals/CsvExportModal';
+import { buildMarkdownTable } from './markdownTable';
+import { hasUnsavedRowIds, markRowIdsSaved, markRowIdsUnsaved } from './rowIds';
+
+// Rapid edits within this window are written to disk as one save
+const SAVE_DEBOUNCE_MS = 500;
 
 // Define the expected state structure
 interface JsonTableViewState {
   file: string | null; // Store file path in state
+  viewId?: string | null; // Active table view (ViewDef.id) shown in this pane
 }
 
 // Change base class from FileView to ItemView
@@ -19,17 +33,48 @@ export class JsonTableView extends ItemView {
   private settings: JsonTableSettings = DEFAULT_SETTINGS;
   // Keep track of the file associated via state
   private currentFilePath: string | null = null;
+  // Active table view for this pane; each pane can show a different view of the same file
+  private activeViewId: string | null = null;
+  // Undo/redo for data edits made in this pane
+  private history = new HistoryManager();
+  // Save queue: edits mark the data dirty, a debounced flush writes it, writes run one at a time
+  private saveQueue: Promise<void> = Promise.resolve();
+  private hasPendingChanges = false; // In-memory edits not yet written to disk
+  private isWriting = false; // True while our own write is in progress
+  private lastWriteMtime = 0; // mtime after our last write, to recognise our own modify events
+  private externalChangeDetected = false; // File changed on disk while we had pending edits
+  private conflictModal: ConflictModal | null = null;
+  private requestSave = debounce(() => { this.flushSave(); }, SAVE_DEBOUNCE_MS, true);
+  // Tables that this table's relation columns link to
+  public readonly relatedTables = new RelatedTables(this.app);
 
   public getFilePath(): string | null {
         return this.currentFilePath;
   }
 
+  public getActiveViewId(): string | null {
+    return this.activeViewId;
+  }
+
+  /** Switches the active table view and persists it in the workspace layout */
+  public setActiveViewId(viewId: string | null) {
+    if (this.activeViewId === viewId) return;
+    this.activeViewId = viewId;
+    this.app.workspace.requestSaveLayout();
+  }
+
   public getRenderer(): TableRenderer | null {
     return this.renderer;
   }
 
   constructor(leaf: WorkspaceLeaf) {
     super(leaf);
+
+    // Standard undo/redo hotkeys while this view is focused
+    this.scope = new Scope(this.app.scope);
+    this.scope.register(['Mod'], 'z', (evt) => this.handleHistoryHotkey(evt, 'undo'));
+    this.scope.register(['Mod', 'Shift'], 'z', (evt) => this.handleHistoryHotkey(evt, 'redo'));
+    this.scope.register(['Mod'], 'y', (evt) => this.handleHistoryHotkey(evt, 'redo'));
   }
 
   // --- Core View Methods ---
@@ -69,8 +114,15 @@ async setState(state: any, result: ViewStateResult): Promise<void> {
     
     const newFilePath = state.file || null;
     const fileChanged = newFilePath !== this.currentFilePath;
+    const newViewId = state.viewId || null;
+    const viewChanged = newViewId !== this.activeViewId;
+
+    if (fileChanged && this.currentFilePath) {
+        await this.flushSave(); // Finish writing the previous file first
+    }
     
     this.currentFilePath = newFilePath;
+    this.activeViewId = newViewId;
 
     // Call parent setState
     await super.setState(state, result);
@@ -80,6 +132,8 @@ async setState(state: any, result: ViewStateResult): Promise<void> {
     // 2. We don't have data loaded yet
     if (this.currentFilePath && (fileChanged || !this.data)) {
         await this.loadFileAndRender(this.currentFilePath);
+    } else if (viewChanged && this.renderer) {
+        this.renderer.render(); // Same file, different view
     } else if (!this.currentFilePath) {
         const container = this.containerEl.children[1];
         if (container) {
@@ -90,10 +144,12 @@ async setState(state: any, result: ViewStateResult): Promise<void> {
 }
 
   getState(): any {
-    // Save the current file path
-    return {
-      file: this.currentFilePath
+    // Save the current file path and active table view
+    const state: JsonTableViewState = {
+      file: this.currentFilePath,
+      viewId: this.activeViewId
     };
+    return state;
   }
 
   // --- File Loading and Rendering (Triggered Manually) ---
@@ -171,6 +227,10 @@ async setState(state: any, result: ViewStateResult): Promise<void> {
         throw new Error('Invalid table data structure received.');
       }
 
+      this.history.reset(this.data);
+      // Freshly read: nothing pending and no conflict with what's on disk
+      this.hasPendingChanges = false;
+      this.externalChangeDetected = false;
       this.renderer = new TableRenderer(container, this.data, this);
       this.renderer.render();
 
@@ -183,6 +243,10 @@ async setState(state: any, result: ViewStateResult): Promise<void> {
 
   // --- Saving Logic ---
 
+  /**
+   * Marks the table as changed and schedules a write. Rapid edits are coalesced into one write
+   * and writes never overlap. The in-memory data is the source of truth until it's written.
+   */
   async saveTableData(dataToSave: TableData) {
       // Use the file path stored in state to get the TFile object
       if (!this.currentFilePath) {
@@ -190,8 +254,32 @@ async setState(state: any, result: ViewStateResult): Promise<void> {
           this.app.workspace.trigger('notice', 'Error: Cannot save, no file loaded.');
           return;
       }
-      const file = this.app.vault.getAbstractFileByPath(this.currentFilePath);
 
+      this.data = dataToSave; // Keep internal data in sync
+      this.history.record(dataToSave);
+      this.hasPendingChanges = true;
+      this.requestSave();
+  }
+
+  /** Writes pending changes now instead of waiting for the debounce. Resolves once written. */
+  public flushSave(): Promise<void> {
+      this.requestSave.cancel();
+      this.saveQueue = this.saveQueue.then(() => this.writePendingChanges());
+      return this.saveQueue;
+  }
+
+  /**
+   * Writes the current data to disk if there are pending changes.
+   * @param overwrite Write even though the file changed on disk (the user chose to keep their version).
+   */
+  private async writePendingChanges(overwrite: boolean = false) {
+      if (!this.hasPendingChanges || !this.data || !this.currentFilePath) return;
+      if (this.externalChangeDetected && !overwrite) {
+        this.showConflictModal(); // Don't clobber the other version; ask first
+        return;
+      }
+
+      const file = this.app.vault.getAbstractFileByPath(this.currentFilePath);
       if (!(file instanceof TFile)) {
             console.error(`Cannot save: File not found at path "${this.currentFilePath}".`);
             this.app.workspace.trigger('notice', 'Error: File to save not found.');
@@ -201,25 +289,336 @@ async setState(state: any, result: ViewStateResult): Promise<void> {
       // Handler should be selected based on the file type
       this.selectFileHandler(file); // Ensure handler matches current file
 
-      if (!this.fileHandler || !dataToSave || !this.checkIfHandlerIsValid(file)) {
-        console.error('Cannot save: No valid handler, data, or settings mismatch.', { file: file, handler: this.fileHandler, data: dataToSave });
+      if (!this.fileHandler || !this.checkIfHandlerIsValid(file)) {
+        console.error('Cannot save: No valid handler or settings mismatch.', { file: file, handler: this.fileHandler });
         this.app.workspace.trigger('notice', 'Error: Could not save table data.');
         return;
       }
 
+      this.hasPendingChanges = false; // Edits made during the write schedule another one
+      this.isWriting = true;
       try {
-        await this.fileHandler.save(file, dataToSave);
-        this.data = dataToSave; // Keep internal data in sync
+        await this.fileHandler.save(file, this.data);
+        this.lastWriteMtime = file.stat.mtime;
+        this.externalChangeDetected = false;
       } catch (e) {
+        this.hasPendingChanges = true; // Keep the edits so the next flush retries
         console.error('Error saving table data:', e);
         this.app.workspace.trigger('notice', `Error saving table: ${(e as Error).message}`);
+      } finally {
+        this.isWriting = false;
+      }
+  }
+
+  /** Vault 'modify' listener: tells our own writes apart from changes made elsewhere */
+  private onFileModified(file: TAbstractFile) {
+      if (!(file instanceof TFile)) return;
+      if (file.path !== this.currentFilePath) {
+        this.onRelatedFileModified(file);
+        return;
+      }
+      if (this.isWriting || file.stat.mtime === this.lastWriteMtime) return; // Our own write
+
+      if (this.hasPendingChanges) {
+        // Both sides changed: let the user decide instead of silently overwriting
+        this.externalChangeDetected = true;
+        this.showConflictModal();
+      } else {
+        this.reloadFromDisk();
       }
   }
 
+  /** Refreshes relation cells when a table they link to changes */
+  private async onRelatedFileModified(file: TFile) {
+      const isRelated = this.data?.columns.some(col =>
+        col.type === 'relation' && (col.typeOptions as RelationTypeOptions | undefined)?.targetTable === file.path
+      );
+      if (!isRelated) return;
+      this.relatedTables.invalidate(file.path);
+      await this.relatedTables.load(file.path); // Load before re-rendering so cells don't flash "Loading"
+      this.rerenderKeepingEdit();
+  }
+
+  /**
+   * Applies a change requested by another table (e.g. a reciprocal relation link) to this pane's data,
+   * saves it and re-renders.
+   * @param mutate Returns false if nothing changed.
+   */
+  public async applyRelatedChange(mutate: (data: TableData) => boolean): Promise<boolean> {
+      if (!this.data || !mutate(this.data)) return false;
+      await this.saveTableData(this.data);
+      this.rerenderKeepingEdit();
+      return true;
+  }
+
+  /** Re-renders the table, keeping the scroll position and any cell being edited */
+  private rerenderKeepingEdit() {
+      if (!this.renderer) return;
+      const cellEdit = this.renderer.captureCellEdit();
+      this.renderer.render();
+      if (cellEdit) this.renderer.restoreCellEdit(cellEdit);
+  }
+
+  private showConflictModal() {
+      if (this.conflictModal || !this.currentFilePath) return; // Already asking
+      const fileName = this.currentFilePath.substring(this.currentFilePath.lastIndexOf('/') + 1);
+      this.conflictModal = new ConflictModal(this.app, fileName, (choice: ConflictChoice) => {
+        this.conflictModal = null;
+        if (choice === 'reload') {
+          this.requestSave.cancel();
+          this.hasPendingChanges = false;
+          this.externalChangeDetected = false;
+          this.reloadFromDisk();
+        } else if (choice === 'keep') {
+          this.requestSave.cancel();
+          this.saveQueue = this.saveQueue.then(() => this.writePendingChanges(true));
+        }
+        // Dismissed: stay in conflict; the next save asks again
+      });
+      this.conflictModal.open();
+  }
+
+  /** Re-reads the file and re-renders, e.g. after it was changed elsewhere. Queued behind any write. */
+  public reloadFromDisk(): Promise<void> {
+      this.saveQueue = this.saveQueue.then(() => this.reloadNow());
+      return this.saveQueue;
+  }
+
+  /**
+   * Replaces the table data with the file's current content, keeping the scroll position,
+   * the active view and a cell being edited (focus, typed text and caret).
+   */
+  private async reloadNow() {
+      if (!this.currentFilePath) return;
+      const file = this.app.vault.getAbstractFileByPath(this.currentFilePath);
+      // Nothing on screen to preserve: do a normal load
+      if (!(file instanceof TFile) || !this.data || !this.renderer || !this.fileHandler) {
+        await this.loadFileAndRender(this.currentFilePath);
+        return;
+      }
+
+      let freshData: TableData;
+      try {
+        freshData = await this.fileHandler.read(file);
+      } catch (e) {
+        // Often a half-synced file; keep showing what we have and wait for the next change
+        console.warn(`Could not reload ${file.path}:`, e);
+        new Notice(`Could not reload table: ${(e as Error).message}`);
+        return;
+      }
+
+      const cellEdit = this.renderer.captureCellEdit();
+      // Replace everything the file holds (including settings like syncMarkdownTable), but in place:
+      // the renderer and its handlers hold this same object
+      const data = this.data;
+      (Object.keys(data) as (keyof TableData)[]).forEach(key => { delete data[key]; });
+      Object.assign(data, freshData);
+      if (hasUnsavedRowIds(freshData)) markRowIdsUnsaved(data);
+      else markRowIdsSaved(data);
+      this.history.reset(this.data); // Undoing past an external change would revert it
+      this.hasPendingChanges = false;
+      this.externalChangeDetected = false;
+
+      this.renderer.render(); // Keeps scroll position, search and active view (unless it was deleted)
+      if (cellEdit) this.renderer.restoreCellEdit(cellEdit);
+  }
+
+  // --- Undo / Redo ---
+
+  public canUndo(): boolean {
+    return !!this.data && this.history.canUndo();
+  }
+
+  public canRedo(): boolean {
+    return !!this.data && this.history.canRedo();
+  }
+
+  /** Restores the table data from before the last edit */
+  public async undo() {
+    if (!this.data) return;
+    const snapshot = this.history.undo();
+    if (!snapshot) { new Notice('Nothing to undo.'); return; }
+    await this.restoreSnapshot(snapshot);
+  }
+
+  /** Re-applies the last undone edit */
+  public async redo() {
+    if (!this.data) return;
+    const snapshot = this.history.redo();
+    if (!snapshot) { new Notice('Nothing to redo.'); return; }
+    await this.restoreSnapshot(snapshot);
+  }
+
+  private async restoreSnapshot(snapshot: HistorySnapshot) {
+    if (!this.data) return;
+    // Mutate in place: the renderer and its handlers hold this same object
+    this.data.columns = snapshot.columns;
+    this.data.rows = snapshot.rows;
+    this.data.views = snapshot.views;
+    await this.saveTableData(this.data); // Matches the history's current state, so no new step
+    this.renderer?.render();
+  }
+
+  /** Text fields keep their own native undo; everywhere else the hotkey undoes table edits */
+  private handleHistoryHotkey(evt: KeyboardEvent, action: 'undo' | 'redo'): boolean {
+    const target = evt.target as HTMLElement | null;
+    const isTextField = !!target && (
+      (target instanceof HTMLInputElement && target.type !== 'checkbox') ||
+      target instanceof HTMLTextAreaElement ||
+      target.isContentEditable
+    );
+    if (isTextField) return true; // Let the browser handle it
+    if (action === 'undo') this.undo(); else this.redo();
+    return false; // Prevent default
+  }
+
+  // --- Import & Export ---
+
+  /** Adds CSV import/export and Markdown table actions to the view's "More options" menu */
+  onPaneMenu(menu: Menu, source: string) {
+    super.onPaneMenu(menu, source);
+    if (!this.data) return;
+    menu.addItem(item => item.setTitle('Import CSV into this table').setIcon('import').setSection('action')
+      .onClick(() => this.importCsvIntoTable()));
+    menu.addItem(item => item.setTitle('Export to CSV').setIcon('download').setSection('action')
+      .onClick(() => this.exportCsv()));
+    menu.addItem(item => item.setTitle('Copy view as Markdown table').setIcon('copy').setSection('action')
+      .onClick(() => this.copyAsMarkdownTable()));
+    if (this.currentFilePath?.endsWith('.table.md')) {
+      menu.addItem(item => item.setTitle('Keep Markdown table in note').setIcon('file-text').setSection('action')
+        .setChecked(!!this.data?.syncMarkdownTable)
+        .onClick(() => this.toggleMarkdownTableSync()));
+    }
+  }
+
+  /**
+   * Lets the user pick a CSV/TSV file and merges its rows into this table, after mapping its columns
+   * to the table's columns in the import modal. The whole import is one undo step.
+   */
+  public importCsvIntoTable() {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.csv,.tsv,.txt';
+    input.style.display = 'none';
+
+    input.onchange = async () => {
+      const file = input.files?.[0];
+      input.remove();
+      if (!file || !this.data) return;
+
+      try {
+        const importData = prepareCsvImport(await parseCsvFile(file));
+        if (importData.headers.length === 0) {
+          new Notice('The file is empty.');
+          return;
+        }
+        new CsvMergeModal(this.app, file.name, importData, this.data.columns, async (mappings, options) => {
+          if (!this.data) return;
+          const result = mergeIntoTable(this.data, importData, mappings, options);
+          await this.saveTableData(this.data);
+          this.renderer?.render();
+          const skipped = importData.skipped.length;
+          new Notice(`Added ${result.added} ${result.added === 1 ? 'row' : 'rows'}`
+            + (options.keyColumnId ? `, updated ${result.updated}` : '')
+            + (skipped > 0 ? `; skipped ${skipped}.` : '.'));
+        }).open();
+      } catch (error) {
+        console.error('Error importing CSV:', error);
+        new Notice('Error importing CSV file. Check console for details.');
+      }
+    };
+
+    document.body.appendChild(input);
+    input.click();
+  }
+
+  /** Asks what to export, then saves the table or active view as a CSV/TSV file next to the table or copies it */
+  public exportCsv() {
+    const data = this.data;
+    if (!data || !this.renderer) return;
+    const activeView = data.views.find(v => v.id === this.activeViewId) || data.views[0];
+    new CsvExportModal(this.app, this.getDisplayText(), activeView.name, (options, destination) => {
+      this.writeCsvExport(options, destination, activeView.name).catch(error => {
+        console.error('Error exporting CSV:', error);
+        new Notice('Error exporting table. Check console for details.');
+      });
+    }).open();
+  }
+
+  private async writeCsvExport(options: ExportOptions, destination: ExportDestination, viewName: string) {
+    if (!this.data || !this.renderer || !this.currentFilePath) return;
+    await this.loadRelatedTables();
+
+    const source = this.renderer.getExportSource(options.scope);
+    const text = buildCsv(source, options);
+    const rowCount = `${source.rows.length} ${source.rows.length === 1 ? 'row' : 'rows'}`;
+
+    if (destination === 'clipboard') {
+      await navigator.clipboard.writeText(text);
+      new Notice(`Copied ${rowCount} to the clipboard.`);
+      return;
+    }
+
+    // Saved next to the table, e.g. "Tasks.csv" or "Tasks - Open.csv"
+    const folder = this.currentFilePath.includes('/') ? this.currentFilePath.substring(0, this.currentFilePath.lastIndexOf('/') + 1) : '';
+    const extension = options.delimiter === '\t' ? '.tsv' : '.csv';
+    const baseName = (options.scope === 'view' && this.data.views.length > 1 ? `${this.getDisplayText()} - ${viewName}` : this.getDisplayText())
+      .replace(/[\\/:*?"<>|#^[\]]/g, '_');
+    let filePath = `${folder}${baseName}${extension}`;
+    for (let counter = 1; await this.app.vault.adapter.exists(filePath); counter++) {
+      filePath = `${folder}${baseName} ${counter}${extension}`;
+    }
+    await this.app.vault.create(filePath, text);
+    new Notice(`Exported ${rowCount} to ${filePath}.`);
+  }
+
+  /** Copies the active view (filtered rows in display order, visible columns) as a GFM pipe table */
+  public async copyAsMarkdownTable() {
+    if (!this.renderer) return;
+    try {
+      await this.loadRelatedTables();
+      const source = this.renderer.getExportSource('view');
+      await navigator.clipboard.writeText(buildMarkdownTable(source));
+      new Notice(`Copied ${source.rows.length} ${source.rows.length === 1 ? 'row' : 'rows'} as a Markdown table.`);
+    } catch (error) {
+      console.error('Error copying Markdown table:', error);
+      new Notice('Error copying table. Check console for details.');
+    }
+  }
+
+  /** Turns the Markdown table kept below the JSON block of a .table.md file on or off */
+  private async toggleMarkdownTableSync() {
+    if (!this.data) return;
+    this.data.syncMarkdownTable = !this.data.syncMarkdownTable || undefined;
+    await this.saveTableData(this.data);
+    await this.flushSave(); // Show the change in the note straight away
+    new Notice(this.data.syncMarkdownTable
+      ? 'The note now includes a Markdown copy of the table, updated on every save.'
+      : 'Removed the Markdown table from the note.');
+  }
+
+  /** Reads the tables this table's relation columns link to, so rollups and relations export their values */
+  private async loadRelatedTables() {
+    if (!this.data) return;
+    const relatedPaths = this.data.columns
+      .filter(col => col.type === 'relation')
+      .map(col => (col.typeOptions as RelationTypeOptions | undefined)?.targetTable)
+      .filter((path): path is string => !!path);
+    await Promise.all(relatedPaths.map(path => this.relatedTables.load(path)));
+  }
+
   // --- Lifecycle Methods ---
 
   // Called when view is attached to DOM
   async onOpen() {
+    // Detect changes made to the file outside this view
+    this.registerEvent(this.app.vault.on('modify', (file) => this.onFileModified(file)));
+
+    // Long tables only render the rows in view, so the renderer needs to follow scrolling
+    this.registerDomEvent(this.containerEl.children[1] as HTMLElement, 'scroll', () => {
+      this.renderer?.onContainerScroll();
+    });
+
     // If state includes a file path, ensure it's loaded and rendered
     if (this.currentFilePath && !this.renderer) {
         await this.loadFileAndRender(this.currentFilePath);
@@ -228,8 +627,13 @@ async setState(state: any, result: ViewStateResult): Promise<void> {
     }
   }
 
+  onResize() {
+    this.renderer?.onContainerScroll(); // More or fewer rows may fit now
+  }
+
   // Called when view is detached
   async onClose() {
+    await this.flushSave(); // Don't lose edits still waiting for the debounce
     this.clearView();
   }
 
@@ -275,6 +679,8 @@ async setState(state: any, result: ViewStateResult): Promise<void> {
     }
 
     try {
+      await this.flushSave(); // Write pending edits to the file before it moves
+
       // Use Obsidian's vault rename method
       await this.app.vault.rename(currentFile, newPath);
       
@@ -295,6 +701,7 @@ async setState(state: any, result: ViewStateResult): Promise<void> {
       this.renderer = null;
       this.fileHandler = null;
       this.data = null;
+      this.history.reset(null);
       this.currentFilePath = null; // Clear associated path
   }
 
@@ -1,7 +1,11 @@
 // src/SortHandler.ts
 
-import { TableData, ColumnDef, SortRule } from './types'; // Ensure SortRule is exported from types.ts
+import { TableData, ColumnDef, SortRule, CellData } from './types'; // Ensure SortRule is exported from types.ts
 import { JsonTableView } from './JsonTableView';
+import { ICON_NAMES, createIconElement } from './icons';
+import { parseNumber } from './renderers/NumberRenderer';
+import { getCellValue, getEffectiveColumnType } from './computedColumns';
+import { ViewHandler } from './ViewHandler';
 
 /**
  * Handles the state and UI logic for sorting the table based on view definitions.
@@ -13,34 +17,26 @@ export class SortHandler {
 private data: TableData,
     private triggerRender: () => void,
     // --- Accept the View instance instead of a save callback ---
-    private view: JsonTableView
-  ) {
-      // Ensure the views array and default view exist
-      if (!this.data.views || !Array.isArray(this.data.views) || this.data.views.length === 0) {
-           console.warn("No views array found in data, creating default view.");
-           this.data.views = [{ id: 'default_'+Date.now(), name: 'Default', sort: [], filter: [] }];
-      }
-      if (!this.data.views[0].sort) this.data.views[0].sort = [];
-      if (!this.data.views[0].filter) this.data.views[0].filter = [];
-  }
+    private view: JsonTableView,
+    // Resolves which view definition (tab) the sort applies to
+    private viewHandler: ViewHandler
+  ) {}
 
   // --- Helper Methods for Sort State ---
 
+  /** Gets the sort rules of the active view */
   public getCurrentSortRules(): SortRule[] {
-      return this.data.views?.[0]?.sort || [];
+      return this.viewHandler.getActiveView().sort || [];
   }
 
+  /** Updates the sort rules of the active view */
   private setCurrentSortRules(rules: SortRule[]): void {
-      if (this.data.views && this.data.views[0]) {
-          this.data.views[0].sort = rules;
-      } else {
-          console.error("Cannot set sort rules: No view definition found in data.");
-      }
+      this.viewHandler.getActiveView().sort = rules;
   }
 
   // --- UI Method ---
 
-  /** Displays the popup UI for selecting sort options */
+  /** Displays the popup UI for editing the sort levels */
   public showSortPopup(button: HTMLButtonElement): void {
     const existingPopup = document.querySelector('.json-table-sort-popup');
     if (existingPopup) existingPopup.remove();
@@ -51,8 +47,10 @@ private data: TableData,
     popup.style.top = `${rect.bottom + 5}px`;
     popup.style.left = `${rect.left}px`;
 
-    const currentRules = this.getCurrentSortRules();
-    const currentSort = currentRules.length > 0 ? currentRules[0] : { columnId: null, direction: 'asc' };
+    // Work on a copy so nothing changes until "Apply" is clicked
+    const workingRules: SortRule[] = this.getCurrentSortRules()
+      .filter(rule => this.data.columns.some(c => c.id === rule.columnId))
+      .map(rule => ({ ...rule }));
 
     // --- Header ---
     const header = popup.createEl('div', { cls: 'json-table-popup-header' });
@@ -60,32 +58,36 @@ private data: TableData,
 
     // --- Content ---
     const content = popup.createEl('div', { cls: 'json-table-popup-content' });
+    const levelsContainer = content.createDiv({ cls: 'json-table-sort-levels' });
 
-    // --- Column Select ---
-    const columnSelect = content.createEl('select', { cls: 'json-table-popup-select' });
-    const noneOption = columnSelect.createEl('option', { text: '-- None --', value: '' });
-    if (currentSort.columnId === null) noneOption.selected = true;
-    this.data.columns.forEach(col => {
-      const option = columnSelect.createEl('option', { text: col.name, value: col.id });
-      if (col.id === currentSort.columnId) option.selected = true;
-    });
+    const rebuildLevels = () => {
+      levelsContainer.empty();
+      if (workingRules.length === 0) {
+        levelsContainer.createDiv({ text: 'No sorting applied', cls: 'json-table-filter-empty' });
+        return;
+      }
+      workingRules.forEach((rule, index) => {
+        this.renderSortLevel(levelsContainer, workingRules, rule, index, rebuildLevels);
+      });
+    };
+    rebuildLevels();
 
-    // --- Direction Select ---
-    const directionSelect = content.createEl('select', { cls: 'json-table-popup-select' });
-    const ascOption = directionSelect.createEl('option', { text: 'Ascending', value: 'asc' });
-    const descOption = directionSelect.createEl('option', { text: 'Descending', value: 'desc' });
-    if (currentSort.direction === 'asc') ascOption.selected = true;
-    else descOption.selected = true;
-    directionSelect.disabled = currentSort.columnId === null; // Disable if no column selected
+    // --- Footer ---
+    const footer = popup.createEl('div', { cls: 'json-table-popup-footer' });
 
-    // Enable/disable direction when column changes
-    columnSelect.addEventListener('change', () => {
-        directionSelect.disabled = columnSelect.value === '';
+    // --- "Add Sort" Button ---
+    const addSortButton = footer.createEl('button', {
+      text: '+ Add sort',
+      cls: 'json-table-btn json-table-btn--standard'
+    });
+    addSortButton.addEventListener('click', () => {
+      // Default to the first column not already used as a sort level
+      const unusedColumn = this.data.columns.find(col => !workingRules.some(r => r.columnId === col.id));
+      if (!unusedColumn) return;
+      workingRules.push({ columnId: unusedColumn.id, direction: 'asc' });
+      rebuildLevels();
     });
 
-    // --- Footer ---
-    const footer = popup.createEl('div', { cls: 'json-table-popup-footer' });
-    
     // --- Apply Button ---
     const applyButton = footer.createEl('button', {
         text: 'Apply',
@@ -94,16 +96,11 @@ private data: TableData,
 
     // --- Apply Button Click Handler (Arrow Function) ---
     const handleApplyClick = async () => {
-
-        const selectedColumnId = columnSelect.value || null;
-        const selectedDirection = directionSelect.value as 'asc' | 'desc';
-        const newRules = selectedColumnId ? [{ columnId: selectedColumnId, direction: selectedDirection }] : [];
-
         try {
-            this.setCurrentSortRules(newRules); // Update sort rules in the data object
+            this.setCurrentSortRules(workingRules); // Update sort rules in the data object
 
             // Explicitly call the save function passed from TableRenderer
-if (this.view && typeof this.view.saveTableData === 'function') {
+            if (this.view && typeof this.view.saveTableData === 'function') {
                 await this.view.saveTableData(this.data); // Call the view's save method
             } else {
                 console.error("Error: View instance or saveTableData method is not available!");
@@ -141,122 +138,153 @@ if (this.view && typeof this.view.saveTableData === 'function') {
     }, 0);
   } // End showSortPopup
 
-  // --- Sorting Logic ---
-  /** Sorts the this.data.rows array in place based on the rules in the current view */
-  // public sortDataInMemory(): void {
-  //   const rules = this.getCurrentSortRules();
-  //   if (rules.length === 0) {
-  //     // TODO: Restore original order if needed
-  //     return;
-  //   }
-
-  //   const { columnId, direction } = rules[0];
-  //   const sortColumn = this.data.columns.find(c => c.id === columnId);
-  //   if (!sortColumn) {
-  //       console.warn(`Sort column with ID "${columnId}" not found. Skipping sort.`);
-  //       return;
-  //   }
-
-  //   const stripEmojis = (str: string): string => { /* ... emoji stripping regex ... */
-  //       return str.replace(/[\u{1F600}-\u{1F64F}\u{1F300}-\u{1F5FF}\u{1F680}-\u{1F6FF}\u{1F1E0}-\u{1F1FF}\u{2600}-\u{26FF}\u{2700}-\u{27BF}\u{FE0F}\u{1F900}-\u{1F9FF}\u{1FA70}-\u{1FAFF}]/gu, '').trim();
-  //   };
-
-
-  //   this.data.rows.sort((rowA, rowB) => {
-  //       const cellA = rowA.find(cell => cell.column === columnId);
-  //       const cellB = rowB.find(cell => cell.column === columnId);
-  //       const valueA_str = cellA?.value || '';
-  //       const valueB_str = cellB?.value || '';
-  //       let comparison = 0;
-
-  //       // Type-Specific Sorting
-  //       switch (sortColumn.type) {
-  //           case 'date':
-  //               const timestampA = parseInt(valueA_str, 10) || 0;
-  //               const timestampB = parseInt(valueB_str, 10) || 0;
-  //               comparison = timestampA - timestampB;
-  //               break;
-  //           case 'checkbox':
-  //               const boolA = valueA_str === 'true';
-  //               const boolB = valueB_str === 'true';
-  //               comparison = (boolA === boolB) ? 0 : (boolA ? 1 : -1);
-  //               break;
-  //           // Add number case here if implemented
-  //           default: // text, dropdown, multiselect, notelink
-  //               const valueA = stripEmojis(valueA_str);
-  //               const valueB = stripEmojis(valueB_str);
-  //               comparison = valueA.toLowerCase().localeCompare(valueB.toLowerCase());
-  //               break;
-  //       }
-
-  //       return direction === 'asc' ? comparison : comparison * -1;
-  //   });
-  // } // End sortDataInMemory
-public sortDataInMemory(): void {
-    const rules = this.getCurrentSortRules();
-    if (rules.length === 0) {
-      // TODO: Restore original order if needed
-      return;
-    }
+  /** Renders one sort level row: drag handle, column, direction and remove button */
+  private renderSortLevel(
+    container: HTMLElement,
+    rules: SortRule[],
+    rule: SortRule,
+    index: number,
+    rebuild: () => void
+  ): void {
+    const rowDiv = container.createDiv({ cls: 'json-table-sort-level' });
+    rowDiv.draggable = true;
+
+    // Drag Handle
+    const handle = rowDiv.createDiv({ cls: 'json-table-sort-level-handle', attr: { 'aria-label': 'Drag to reorder' } });
+    handle.appendChild(createIconElement(ICON_NAMES.gripVertical, 14));
+
+    // Label ("Sort by" for the first level, "then by" afterwards)
+    rowDiv.createSpan({ text: index === 0 ? 'Sort by' : 'then by', cls: 'json-table-sort-level-label' });
+
+    // Column Select (columns used by other levels are excluded)
+    const columnSelect = rowDiv.createEl('select', { cls: 'json-table-popup-select' });
+    this.data.columns.forEach(col => {
+      if (col.id !== rule.columnId && rules.some(r => r.columnId === col.id)) return;
+      const option = columnSelect.createEl('option', { text: col.name, value: col.id });
+      if (col.id === rule.columnId) option.selected = true;
+    });
+    columnSelect.addEventListener('change', () => {
+      rule.columnId = columnSelect.value;
+      rebuild();
+    });
 
-    const { columnId, direction } = rules[0];
-    const sortColumn = this.data.columns.find(c => c.id === columnId);
-    if (!sortColumn) {
-        console.warn(`Sort column with ID "${columnId}" not found. Skipping sort.`);
-        return;
-    }
+    // Direction Select
+    const directionSelect = rowDiv.createEl('select', { cls: 'json-table-popup-select' });
+    const ascOption = directionSelect.createEl('option', { text: 'Ascending', value: 'asc' });
+    const descOption = directionSelect.createEl('option', { text: 'Descending', value: 'desc' });
+    if (rule.direction === 'asc') ascOption.selected = true;
+    else descOption.selected = true;
+    directionSelect.addEventListener('change', () => {
+      rule.direction = directionSelect.value as 'asc' | 'desc';
+    });
 
-    const stripEmojis = (str: string): string => { /* ... emoji stripping regex ... */
-        return str.replace(/[\u{1F600}-\u{1F64F}\u{1F300}-\u{1F5FF}\u{1F680}-\u{1F6FF}\u{1F1E0}-\u{1F1FF}\u{2600}-\u{26FF}\u{2700}-\u{27BF}\u{FE0F}\u{1F900}-\u{1F9FF}\u{1FA70}-\u{1FAFF}]/gu, '').trim();
-    };
+    // Remove Button
+    const deleteButton = rowDiv.createEl('button', { cls: 'json-table-delete-filter-button', attr: { 'aria-label': 'Remove sort level' } });
+    deleteButton.appendChild(createIconElement(ICON_NAMES.trash, 14));
+    deleteButton.addEventListener('click', () => {
+      rules.splice(index, 1);
+      rebuild();
+    });
 
+    // Drag and Drop to reorder levels
+    rowDiv.addEventListener('dragstart', (e) => {
+      if (e.dataTransfer) {
+        e.dataTransfer.effectAllowed = 'move';
+        e.dataTransfer.setData('text/plain', index.toString());
+        rowDiv.addClass('is-dragging');
+      }
+    });
+    rowDiv.addEventListener('dragover', (e) => {
+      e.preventDefault(); if (e.dataTransfer) e.dataTransfer.dropEffect = 'move'; rowDiv.addClass('is-dragover');
+    });
+    rowDiv.addEventListener('dragleave', () => rowDiv.removeClass('is-dragover'));
+    rowDiv.addEventListener('drop', (e) => {
+      e.preventDefault(); rowDiv.removeClass('is-dragover');
+      const fromIndex = parseInt(e.dataTransfer?.getData('text/plain') || '', 10);
+      if (isNaN(fromIndex) || fromIndex === index) return;
+      const moved = rules.splice(fromIndex, 1)[0];
+      rules.splice(index, 0, moved);
+      rebuild();
+    });
+    rowDiv.addEventListener('dragend', () => rowDiv.removeClass('is-dragging'));
+  }
 
-    this.data.rows.sort((rowA, rowB) => {
-        const cellA = rowA.find(cell => cell.column === columnId);
-        const cellB = rowB.find(cell => cell.column === columnId);
-        const valueA_str = cellA?.value || '';
-        const valueB_str = cellB?.value || '';
+  // --- Sorting Logic ---
 
-        // --- NEW: Prioritize Empty Values ---
-        const isEmptyA = !valueA_str; // True if empty string, null, or undefined
-        const isEmptyB = !valueB_str;
+  /**
+   * Returns a sorted copy of the given rows, falling through each rule of the current view in order.
+   * The stored row order (this.data.rows) is never modified, so clearing the sort restores it.
+   */
+  public getSortedRows(rows: CellData[][]): CellData[][] {
+    // Resolve rules to their columns, skipping any that point at deleted columns
+    const activeRules = this.getCurrentSortRules()
+      .map(rule => ({ rule, column: this.data.columns.find(c => c.id === rule.columnId) }))
+      .filter((entry): entry is { rule: SortRule; column: ColumnDef } => {
+        if (!entry.column) console.warn(`Sort column with ID "${entry.rule.columnId}" not found. Skipping sort level.`);
+        return !!entry.column;
+      })
+      // Formula and rollup columns sort by their computed value, compared as the type they produce
+      .map(entry => ({ ...entry, type: getEffectiveColumnType(this.data, entry.column) }));
+    if (activeRules.length === 0) {
+      return rows; // Canonical (stored) order
+    }
 
-        if (isEmptyA && isEmptyB) {
-            return 0; // Both empty, treat as equal
-        }
-        if (isEmptyA) {
-            return 1; // Empty A comes *after* non-empty B, regardless of direction
+    // Compute each row's sort values once (formulas and rollups are costly), then sort on those.
+    // Array.prototype.sort is stable, so rows equal on every level keep their stored order
+    const decorated = rows.map(row => ({
+        row: row,
+        keys: activeRules.map(({ column, type }) => this.getSortKey(row, column, type))
+    }));
+    decorated.sort((entryA, entryB) => {
+        for (let level = 0; level < activeRules.length; level++) {
+            const comparison = compareSortKeys(entryA.keys[level], entryB.keys[level], activeRules[level].rule.direction);
+            if (comparison !== 0) return comparison;
         }
-        if (isEmptyB) {
-            return -1; // Non-empty A comes *before* empty B, regardless of direction
-        }
-        // --- END NEW ---
-
-        // --- If neither is empty, proceed with normal comparison ---
-        let comparison = 0;
-
-        switch (sortColumn.type) {
-            case 'date':
-                const timestampA = parseInt(valueA_str, 10); // Already checked for empty, parse should work or yield NaN
-                const timestampB = parseInt(valueB_str, 10);
-                // Handle potential NaN from failed parseInt on non-empty, non-numeric strings
-                comparison = (isNaN(timestampA) ? 0 : timestampA) - (isNaN(timestampB) ? 0 : timestampB);
-                break;
-            case 'checkbox':
-                const boolA = valueA_str === 'true';
-                const boolB = valueB_str === 'true';
-                comparison = (boolA === boolB) ? 0 : (boolA ? 1 : -1); // false < true
-                break;
-            // Add number case here if implemented
-            default: // text, dropdown, multiselect, notelink
-                const valueA = stripEmojis(valueA_str);
-                const valueB = stripEmojis(valueB_str);
-                comparison = valueA.toLowerCase().localeCompare(valueB.toLowerCase());
-                break;
-        }
-
-        // Apply direction ONLY to non-empty comparisons
-        return direction === 'asc' ? comparison : comparison * -1;
+        return 0; // Equal on every level
     });
-  } // End sortDataInMemory
-} // End SortHandler class
\ No newline at end of file
+    return decorated.map(entry => entry.row);
+  } // End getSortedRows
+
+  /**
+   * The value a row is sorted by on one column, in the form it is compared in:
+   * a number for dates, checkboxes and numbers, lowercase text otherwise, or null if the cell is empty.
+   */
+  private getSortKey(row: CellData[], sortColumn: ColumnDef, columnType: string): SortKey {
+    const value = getCellValue(this.data, row, sortColumn, this.view.relatedTables);
+    if (!value) return null;
+
+    switch (columnType) {
+        case 'date': {
+            const timestamp = parseInt(value, 10);
+            return isNaN(timestamp) ? 0 : timestamp; // Non-numeric strings sort as the earliest date
+        }
+        case 'checkbox':
+            return value === 'true' ? 1 : 0; // false < true
+        case 'number':
+            return parseNumber(value) ?? 0;
+        default: // text, dropdown, multiselect, notelink
+            return stripEmojis(value).toLowerCase();
+    }
+  }
+} // End SortHandler class
+
+/** A row's value on one sort level, see getSortKey */
+type SortKey = number | string | null;
+
+/** Compares two sort values. Empty values always sort last, regardless of direction. */
+function compareSortKeys(keyA: SortKey, keyB: SortKey, direction: 'asc' | 'desc'): number {
+  if (keyA === null && keyB === null) return 0; // Both empty, treat as equal
+  if (keyA === null) return 1; // Empty A comes *after* non-empty B, regardless of direction
+  if (keyB === null) return -1; // Non-empty A comes *before* empty B, regardless of direction
+
+  const comparison = typeof keyA === 'number' && typeof keyB === 'number'
+    ? keyA - keyB
+    : String(keyA).localeCompare(String(keyB));
+  // Apply direction ONLY to non-empty comparisons
+  return direction === 'asc' ? comparison : comparison * -1;
+}
+
+/** Removes emoji so e.g. "🔥 Urgent" sorts alongside "Urgent" */
+function stripEmojis(str: string): string {
+  return str.replace(/[\u{1F600}-\u{1F64F}\u{1F300}-\u{1F5FF}\u{1F680}-\u{1F6FF}\u{1F1E0}-\u{1F1FF}\u{2600}-\u{26FF}\u{2700}-\u{27BF}\u{FE0F}\u{1F900}-\u{1F9FF}\u{1FA70}-\u{1FAFF}]/gu, '').trim();
+}
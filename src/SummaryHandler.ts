@@ -0,0 +1,131 @@
+// src/SummaryHandler.ts
+
+import { Menu } from 'obsidian';
+import { AggregationType, CellData, ColumnDef, TableData } from './types';
+import { JsonTableView } from './JsonTableView';
+import { ViewHandler } from './ViewHandler';
+import { AGGREGATION_LABELS, aggregateValues, getSummaryAggregationsForType } from './aggregations';
+import { getCellValue, getEffectiveColumnType } from './computedColumns';
+
+/**
+ * Handles the optional summary row (table footer) of the active view.
+ * Each column can show one calculation over the rows currently displayed (after filter and search);
+ * the chosen calculations are stored per view.
+ */
+export class SummaryHandler {
+  private tfoot: HTMLTableSectionElement | null = null;
+  private rows: CellData[][] = []; // Rows the summary is calculated over
+
+  constructor(
+    private data: TableData,
+    private view: JsonTableView,
+    private viewHandler: ViewHandler,
+    // Formats a stored value the way cells of the given column display it
+    private formatValue: (value: string, column: ColumnDef) => string
+  ) {}
+
+  /** Whether the active view shows the summary row */
+  public isShown(): boolean {
+    return !!this.viewHandler.getActiveView().showSummary;
+  }
+
+  /** The calculation chosen for a column in the active view, if it still applies to the column's type */
+  private getAggregation(column: ColumnDef): AggregationType | null {
+    const aggregation = this.viewHandler.getActiveView().aggregations?.[column.id];
+    if (!aggregation) return null;
+    const available = getSummaryAggregationsForType(getEffectiveColumnType(this.data, column));
+    return available.includes(aggregation) ? aggregation : null;
+  }
+
+  private async setAggregation(column: ColumnDef, aggregation: AggregationType | null) {
+    const activeView = this.viewHandler.getActiveView();
+    const aggregations = activeView.aggregations || {};
+    if (aggregation) aggregations[column.id] = aggregation;
+    else delete aggregations[column.id];
+    activeView.aggregations = aggregations;
+    await this.view.saveTableData(this.data);
+    this.update();
+  }
+
+  // --- Rendering ---
+
+  /** Adds the summary row to the table if the active view shows it */
+  public renderFooter(table: HTMLTableElement, rows: CellData[][]) {
+    this.tfoot = null;
+    if (!this.isShown()) return;
+    this.tfoot = table.createEl('tfoot', { cls: 'json-table-summary' });
+    this.update(rows);
+  }
+
+  /**
+   * Recalculates the summary row, e.g. after a cell changed or the displayed rows changed.
+   * @param rows The rows to summarise; defaults to the same rows as last time
+   */
+  public update(rows: CellData[][] = this.rows) {
+    this.rows = rows;
+    const tfoot = this.tfoot;
+    if (!tfoot || !tfoot.isConnected) return;
+    tfoot.empty();
+    const tr = tfoot.createEl('tr', { cls: 'json-table-summary-row' });
+    this.viewHandler.getVisibleColumns().forEach(column => this.renderSummaryCell(tr, column));
+    tr.createEl('td', { cls: 'json-table-row-actions-cell' }); // Lines up with the row actions column
+  }
+
+  private renderSummaryCell(tr: HTMLElement, column: ColumnDef) {
+    const td = tr.createEl('td', { cls: 'json-table-summary-cell', attr: { 'data-col-id': column.id } });
+    const aggregation = this.getAggregation(column);
+    if (aggregation) {
+      const text = this.getSummaryText(column, aggregation);
+      td.createSpan({ cls: 'json-table-summary-label', text: AGGREGATION_LABELS[aggregation] });
+      td.createSpan({ cls: 'json-table-summary-value', text: text || '–' });
+      td.setAttr('title', `${AGGREGATION_LABELS[aggregation]}: ${text || '–'}`);
+    } else {
+      td.addClass('is-empty');
+      td.createSpan({ cls: 'json-table-summary-label', text: 'Calculate' });
+    }
+    td.addEventListener('click', (e) => this.showAggregationMenu(e, column, aggregation));
+  }
+
+  /** Calculates a column's summary over the displayed rows and formats it for display */
+  private getSummaryText(column: ColumnDef, aggregation: AggregationType): string {
+    const values = this.rows.map(row => getCellValue(this.data, row, column, this.view.relatedTables));
+    const result = aggregateValues(values, aggregation);
+    if (result === '') return '';
+
+    switch (aggregation) {
+      case 'sum':
+      case 'average':
+      case 'min':
+      case 'max': {
+        // Formula and rollup results use plain number formatting
+        const numberColumn: ColumnDef = column.type === 'number' ? column : { id: column.id, name: column.name, type: 'number' };
+        return this.formatValue(result, numberColumn);
+      }
+      case 'earliest':
+      case 'latest': {
+        const dateColumn: ColumnDef = column.type === 'date' ? column : { id: column.id, name: column.name, type: 'date' };
+        return this.formatValue(result, dateColumn);
+      }
+      case 'range':
+        return result === '1' ? '1 day' : `${result} days`;
+      case 'percentChecked':
+        return `${result}%`;
+      default:
+        return result;
+    }
+  }
+
+  /** Lists the calculations available for the column's type */
+  private showAggregationMenu(e: MouseEvent, column: ColumnDef, current: AggregationType | null) {
+    const menu = new Menu();
+    menu.addItem(item => item.setTitle('None')
+      .setChecked(current === null)
+      .onClick(() => this.setAggregation(column, null)));
+    getSummaryAggregationsForType(getEffectiveColumnType(this.data, column)).forEach(aggregation => {
+      menu.addItem(item => item.setTitle(AGGREGATION_LABELS[aggregation])
+        .setChecked(aggregation === current)
+        .onClick(() => this.setAggregation(column, aggregation)));
+    });
+    menu.showAtMouseEvent(e);
+  }
+}
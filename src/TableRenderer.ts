@@ -1,6 +1,7 @@
 // src/TableRenderer.ts
 
-import { TableData, ColumnDef, CellData } from './types'; // Adjust path if needed
+import { Notice, debounce } from 'obsidian';
+import { TableData, ColumnDef, CellData, RelationTypeOptions } from './types'; // Adjust path if needed
 import { JsonTableView } from './JsonTableView'; // Adjust path if needed
 
 // Import cell renderers
@@ -11,6 +12,9 @@ import { DropdownRenderer } from './renderers/DropdownRenderer';
 import { MultiSelectRenderer } from './renderers/MultiSelectRenderer';
 import { NoteLinkRenderer } from './renderers/NoteLinkRenderer';
 import { DateRenderer } from './renderers/DateRenderer'; // Ensure DateRenderer is imported
+import { NumberRenderer } from './renderers/NumberRenderer';
+import { FormulaRenderer } from './renderers/FormulaRenderer';
+import { RelationRenderer } from './renderers/RelationRenderer';
 
 // Import column editors
 import { IColumnEditor } from './editors/IColumnEditor';
@@ -18,10 +22,23 @@ import { TextColumnEditor } from './editors/TextColumnEditor';
 import { DropdownColumnEditor } from './editors/DropdownColumnEditor';
 import { NoteLinkColumnEditor } from './editors/NoteLinkColumnEditor';
 import { DateColumnEditor } from './editors/DateColumnEditor';
+import { NumberColumnEditor } from './editors/NumberColumnEditor';
+import { FormulaColumnEditor } from './editors/FormulaColumnEditor';
+import { RelationColumnEditor } from './editors/RelationColumnEditor';
+import { RollupColumnEditor } from './editors/RollupColumnEditor';
+
+// Import computed column helpers
+import { FORMULA_ERROR_DISPLAY, computeFormula, formulaValueToDisplay, renameFormulaReferences } from './formula/FormulaEngine';
+import { computeRollup, getCellValue, isComputedColumn } from './computedColumns';
+import { ExportScope, ExportSource } from './csv/csvExport';
+import { createRowId, ensureRowId, findRowById, findRowIndexById, getRowId, ROW_ID_COLUMN } from './rowIds';
 
 // Import Handlers
 import { SortHandler } from './SortHandler';
 import { FilterHandler } from './FilterHandler';
+import { ViewHandler } from './ViewHandler';
+import { SummaryHandler } from './SummaryHandler';
+import { GroupHandler, RowGroup } from './GroupHandler';
 
 // Import Icons
 import {
@@ -32,13 +49,34 @@ import {
 // Map column types to their icon names
 const TYPE_ICONS: Record<string, string> = {
   text: ICON_NAMES.text,
+  number: ICON_NAMES.number,
   dropdown: ICON_NAMES.dropdown,
   multiselect: ICON_NAMES.multiselect,
   checkbox: ICON_NAMES.checkbox,
   date: ICON_NAMES.date,
   notelink: ICON_NAMES.link,
+  formula: ICON_NAMES.formula,
+  relation: ICON_NAMES.relation,
+  rollup: ICON_NAMES.rollup,
 };
 
+// Row virtualization: past this many rows, only rows in and near the viewport are rendered
+const VIRTUALIZE_MIN_ROWS = 100;
+const VIRTUAL_OVERSCAN_ROWS = 10; // Extra rows above/below the viewport so fast scrolling doesn't show gaps
+const DEFAULT_ROW_HEIGHT = 48; // Matches $table-cell-height; replaced by the measured height
+
+// Incremental updates animate rows and columns that move, and rows that disappear, unless too many change at once
+const ROW_ANIMATION_MS = 200;
+const MAX_ANIMATED_ROWS = 200;
+
+/** A focused cell and its unsaved input, captured across a reload */
+export interface CellEditState {
+  rowId: string; // Stable ID of the row, so the cell is found again even if a reload reordered rows
+  columnId: string;
+  value: string | null; // Text typed so far (null for non-text cells)
+  selectionStart: number | null;
+  selectionEnd: number | null;
+}
 
 export class TableRenderer {
 
@@ -47,8 +85,25 @@ export class TableRenderer {
   private columnEditors: Map<string, IColumnEditor>;
   private isResizing: boolean = false;
   private colGroup: HTMLTableColElement | null = null;
+  private displayedRows: CellData[][] = []; // Rows currently shown (filtered + sorted)
+  private rowElements = new Map<CellData[], HTMLElement>(); // <tr> for each displayed row
+  private focusedRow: CellData[] | null = null; // Last row that received focus, for keyboard commands
+  private searchQuery: string = ''; // Quick search text; transient, never saved into the view
+  private tbody: HTMLTableSectionElement | null = null;
+  private draggedRowId: string | null = null; // ID of the row being dragged
+  private draggedColumnId: string | null = null; // ID of the column whose header is being dragged
+  private headerRow: HTMLElement | null = null;
+  // Virtualization state (long tables only)
+  private renderedRange: { start: number; end: number } | null = null; // Slice of displayedRows in the DOM; null when all rows are
+  private rowHeight: number = DEFAULT_ROW_HEIGHT;
+  private scrollFrame: number | null = null;
+  private updateCounter: number = 0; // Lets an in-flight updateRows() notice a newer one started
+  private loadingRelatedTables = new Set<string>(); // Related tables being read for rollup cells
   private sortHandler: SortHandler;
   private filterHandler: FilterHandler; // Add FilterHandler instance
+  private viewHandler: ViewHandler; // Tracks the active view (tab)
+  private summaryHandler: SummaryHandler; // Footer row with per-column calculations
+  private groupHandler: GroupHandler; // Groups rows into collapsible sections
 
   constructor(
     private container: Element,
@@ -62,8 +117,14 @@ export class TableRenderer {
     this.registerColumnEditors();
 
     // Instantiate Handlers
-    this.sortHandler = new SortHandler(this.data, () => this.render(), this.view);
-    this.filterHandler = new FilterHandler(this.data, () => this.render(), this.view);
+    this.viewHandler = new ViewHandler(this.data, () => this.render(), this.view);
+    this.sortHandler = new SortHandler(this.data, () => this.render(), this.view, this.viewHandler);
+    this.filterHandler = new FilterHandler(this.data, () => this.render(), this.view, this.viewHandler);
+    this.groupHandler = new GroupHandler(this.data, () => this.render(), this.view, this.viewHandler);
+    this.summaryHandler = new SummaryHandler(this.data, this.view, this.viewHandler, (value, column) => {
+      const renderer = this.cellRenderers.get(column.type);
+      return renderer ? renderer.getDisplayValue(this.view.app, value, column) : value;
+    });
   }
 
   // --- Registration ---
@@ -75,6 +136,10 @@ export class TableRenderer {
     this.cellRenderers.set('multiselect', new MultiSelectRenderer());
     this.cellRenderers.set('notelink', new NoteLinkRenderer());
     this.cellRenderers.set('date', new DateRenderer());
+    this.cellRenderers.set('number', new NumberRenderer());
+    this.cellRenderers.set('formula', new FormulaRenderer());
+    this.cellRenderers.set('rollup', new FormulaRenderer()); // Also read-only computed text
+    this.cellRenderers.set('relation', new RelationRenderer(this.view.relatedTables));
   }
 
   private registerColumnEditors() {
@@ -84,6 +149,10 @@ export class TableRenderer {
     this.columnEditors.set('multiselect', new DropdownColumnEditor());
     this.columnEditors.set('notelink', new NoteLinkColumnEditor());
     this.columnEditors.set('date', new DateColumnEditor());
+    this.columnEditors.set('number', new NumberColumnEditor());
+    this.columnEditors.set('formula', new FormulaColumnEditor());
+    this.columnEditors.set('relation', new RelationColumnEditor());
+    this.columnEditors.set('rollup', new RollupColumnEditor());
   }
 
   // --- Rename Input Rendering ---
@@ -141,12 +210,17 @@ export class TableRenderer {
     const existingWrapper = this.container.querySelector('.json-table-wrapper') as HTMLElement;
     const scrollLeft = existingWrapper?.scrollLeft ?? 0;
     const scrollTop = existingWrapper?.scrollTop ?? 0;
+    const containerScrollTop = this.container.scrollTop; // The view container scrolls vertically
     
     this.container.empty(); // Clear everything before re-rendering
+    this.updateCounter++; // Any in-flight incremental update is now stale
 
     // Render file rename input at the top
     this.renderRenameInput();
 
+    // Render view tabs (one per ViewDef)
+    this.viewHandler.renderViewTabs(this.container);
+
     // Render controls (Sort & Filter buttons)
     const controlsContainer = this.container.createDiv({ cls: 'json-table-controls' });
 
@@ -176,27 +250,62 @@ export class TableRenderer {
         this.filterHandler.showFilterPopup(filterButton);
     });
 
+    // Group Button
+    const groupButton = controlsContainer.createEl('button', {
+        cls: 'json-table-btn json-table-btn--standard json-table-group-button',
+        attr: { 'aria-label': 'Group rows' }
+    });
+    groupButton.appendChild(createIconElement(ICON_NAMES.group, 16, 'icon-group'));
+    groupButton.appendText(' Group');
+    if (this.groupHandler.getGroupColumn()) {
+        groupButton.addClass('json-table-btn--active');
+    }
+    groupButton.addEventListener('click', () => {
+        this.groupHandler.showGroupPopup(groupButton);
+    });
+
+    // Column Visibility Button
+    const columnsButton = controlsContainer.createEl('button', {
+        cls: 'json-table-btn json-table-btn--standard json-table-columns-button',
+        attr: { 'aria-label': 'Show or hide columns' }
+    });
+    const columnsIcon = createIconElement(ICON_NAMES.columns, 16, 'icon-columns');
+    columnsButton.appendChild(columnsIcon);
+    columnsButton.appendText(' Columns');
+    if (this.viewHandler.hasHiddenColumns()) {
+        columnsButton.addClass('json-table-btn--active');
+    }
+    columnsButton.addEventListener('click', () => {
+        this.viewHandler.showColumnVisibilityPopup(columnsButton);
+    });
+
+    // Quick Search
+    this.renderSearchInput(controlsContainer);
+
 
     // Render table wrapper and table element
     const tableWrapper = this.container.createEl('div', { cls: 'json-table-wrapper' });
     const table = tableWrapper.createEl('table', { cls: 'json-table' });
 
-    // Apply sorting to the *full* data set (in memory) if needed
-    this.sortHandler.sortDataInMemory();
-
-    // Get Filtered Rows *after* sorting the full set
-    const rowsToRender = this.filterHandler.getFilteredRows();
+    const rowsToRender = this.getRowsToDisplay();
 
-    // Render colgroup, header (using full column list)
+    // Render colgroup, header (using the active view's visible columns)
     this.colGroup = table.createEl('colgroup');
-    this.renderColGroup(); // Based on this.data.columns
-    this.renderHeader(table); // Based on this.data.columns
+    this.renderColGroup();
+    this.renderHeader(table);
 
     // Render Body using FILTERED rows
+    this.displayedRows = rowsToRender;
+    if (this.focusedRow && !this.data.rows.includes(this.focusedRow)) this.focusedRow = null;
     this.renderBody(table, rowsToRender); // Pass filtered rows
+    this.summaryHandler.renderFooter(table, rowsToRender);
 
     // Render Add Row button
     this.renderAddRowButton(this.container);
+
+    // Restore vertical scroll now (spacers give long tables their full height), then fill the row window
+    this.container.scrollTop = containerScrollTop;
+    this.updateVirtualWindow();
     
     // Restore scroll position after rendering
     // Use requestAnimationFrame for better timing with DOM updates
@@ -212,11 +321,12 @@ export class TableRenderer {
     const colGroupEl = this.colGroup;
     colGroupEl.empty();
 
-    this.data.columns.forEach((colDef, index) => {
+    this.viewHandler.getVisibleColumns().forEach((colDef) => {
       const col = colGroupEl.createEl('col');
       // Width must be set via JS for user-resizable columns
       col.style.width = colDef.width ? `${colDef.width}px` : `150px`;
-      col.setAttribute('data-col-index', index.toString());
+      // Resizing finds the <col> by column ID, which stays right when columns move
+      col.setAttribute('data-col-id', colDef.id);
     });
 
     // Add a <col> for the combined buttons column
@@ -229,13 +339,38 @@ export class TableRenderer {
   private renderHeader(table: HTMLTableElement) {
     const thead = table.createEl('thead');
     const headerRow = thead.createEl('tr');
-    let draggedColumnIndex: number | null = null;
+    this.headerRow = headerRow;
+    this.draggedColumnId = null;
 
     // Render Data Columns
-    this.data.columns.forEach((col, colIndex) => {
-      const th = headerRow.createEl('th', { cls: 'json-table-header-cell' });
+    this.viewHandler.getVisibleColumns().forEach((col) => this.renderHeaderCell(headerRow, col));
+
+    // Render Combined Header Cell for Buttons
+    const buttonsTh = headerRow.createEl('th', { cls: 'json-table-header-sticky json-table-buttons-th' });
+    const buttonContainer = buttonsTh.createEl('div', { cls: 'json-table-header-buttons-container' });
+
+    // More Options Button - Commented out until functionality is implemented
+    // const moreOptionsBtnDiv = buttonContainer.createEl('div', { cls: 'json-table-btn json-table-btn--icon', attr: { 'aria-label': 'More options', title: 'More options' } });
+    // const moreIcon = createIconElement(ICON_NAMES.moreVertical, 18);
+    // moreOptionsBtnDiv.appendChild(moreIcon);
+    // moreOptionsBtnDiv.addEventListener('click', (e) => { e.stopPropagation(); /* TODO: Menu */ });
+
+    // Add Column Button Div
+    const addColBtnDiv = buttonContainer.createEl('div', { cls: 'json-table-btn json-table-btn--icon', attr: { 'aria-label': 'Add column', title: 'Add column' } });
+    const plusIcon = createIconElement(ICON_NAMES.plus, 18);
+    addColBtnDiv.appendChild(plusIcon);
+    let isAddColPopupOpen = false;
+    addColBtnDiv.addEventListener('click', (e) => {
+        e.preventDefault(); e.stopPropagation(); if (isAddColPopupOpen) return;
+        isAddColPopupOpen = true;
+        this.showAddColumnDialog(buttonsTh, addColBtnDiv, this.data, () => { isAddColPopupOpen = false; });
+    });
+  }
+
+  /** Appends a column's header cell; it looks the column up by ID on every event, so it keeps working when columns move */
+  private renderHeaderCell(headerRow: HTMLElement, col: ColumnDef): HTMLElement {
+      const th = headerRow.createEl('th', { cls: 'json-table-header-cell', attr: { 'data-col-id': col.id } });
       th.draggable = true;
-      th.setAttribute('data-col-index', colIndex.toString());
 
       const contentWrapper = th.createEl('div', { cls: 'json-table-header-content' });
       const iconSvg = TYPE_ICONS[col.type];
@@ -246,120 +381,748 @@ export class TableRenderer {
       contentWrapper.appendText(col.name);
 
       const resizeHandle = th.createEl('div', { cls: 'json-table-resize-handle' });
-      resizeHandle.addEventListener('mousedown', (e) => { this.onResizeStart(e, col, colIndex); });
+      resizeHandle.addEventListener('mousedown', (e) => { this.onResizeStart(e, col); });
 
       // Drag and Drop Listeners
-      th.addEventListener('dragstart', (e) => { /* ... drag start logic ... */
+      th.addEventListener('dragstart', (e) => {
          if ((e.target as HTMLElement).classList.contains('json-table-resize-handle')) { e.preventDefault(); return; }
-         if (e.dataTransfer) { e.dataTransfer.effectAllowed = 'move'; draggedColumnIndex = colIndex; th.classList.add('is-dragging'); }
+         if (e.dataTransfer) { e.dataTransfer.effectAllowed = 'move'; this.draggedColumnId = col.id; th.classList.add('is-dragging'); }
       });
-      th.addEventListener('dragover', (e) => { /* ... drag over logic ... */
+      th.addEventListener('dragover', (e) => {
+          if (this.draggedColumnId === null) return;
           e.preventDefault(); if (e.dataTransfer) e.dataTransfer.dropEffect = 'move'; th.classList.add('is-dragover');
       });
       th.addEventListener('dragleave', () => th.classList.remove('is-dragover'));
-      th.addEventListener('drop', (e) => { /* ... drop logic ... */
-          e.preventDefault(); th.classList.remove('is-dragover'); if (draggedColumnIndex === null) return;
-          const targetColumnIndex = colIndex; if (draggedColumnIndex === targetColumnIndex) return;
-          const draggedColumn = this.data.columns.splice(draggedColumnIndex, 1)[0]; this.data.columns.splice(targetColumnIndex, 0, draggedColumn);
-          this.view.saveTableData(this.data); this.render();
+      th.addEventListener('drop', (e) => {
+          e.preventDefault(); th.classList.remove('is-dragover');
+          const draggedColumnId = this.draggedColumnId;
+          this.draggedColumnId = null;
+          if (draggedColumnId === null || draggedColumnId === col.id) return;
+          this.moveColumn(draggedColumnId, col.id);
       });
-      th.addEventListener('dragend', () => { /* ... drag end logic ... */
-          th.classList.remove('is-dragging'); draggedColumnIndex = null;
+      th.addEventListener('dragend', () => {
+          th.classList.remove('is-dragging'); this.draggedColumnId = null;
       });
 
       // Edit Column Click Listener
-      th.addEventListener('click', (e) => { /* ... edit click logic ... */
+      th.addEventListener('click', (e) => {
           if (this.isResizing) { this.isResizing = false; return; }
           if ((e.target as HTMLElement).classList.contains('json-table-resize-handle')) { return; }
-          e.stopPropagation(); this.showEditColumnDialog(th, col, this.data, colIndex);
+          e.stopPropagation(); this.showEditColumnDialog(th, col, this.data);
       });
-    }); // End data columns loop
+      return th;
+  }
 
-    // Render Combined Header Cell for Buttons
-    const buttonsTh = headerRow.createEl('th', { cls: 'json-table-header-sticky json-table-buttons-th' });
-    const buttonContainer = buttonsTh.createEl('div', { cls: 'json-table-header-buttons-container' });
+  /** Moves a column to the position of another (in data.columns) and slides the cells over */
+  private async moveColumn(movedColumnId: string, targetColumnId: string) {
+    const fromIndex = this.data.columns.findIndex(col => col.id === movedColumnId);
+    const toIndex = this.data.columns.findIndex(col => col.id === targetColumnId);
+    if (fromIndex === -1 || toIndex === -1) return;
+    const movedColumn = this.data.columns.splice(fromIndex, 1)[0];
+    this.data.columns.splice(toIndex, 0, movedColumn);
+    await this.view.saveTableData(this.data);
+    this.updateColumns();
+  }
 
-    // More Options Button - Commented out until functionality is implemented
-    // const moreOptionsBtnDiv = buttonContainer.createEl('div', { cls: 'json-table-btn json-table-btn--icon', attr: { 'aria-label': 'More options', title: 'More options' } });
-    // const moreIcon = createIconElement(ICON_NAMES.moreVertical, 18);
-    // moreOptionsBtnDiv.appendChild(moreIcon);
-    // moreOptionsBtnDiv.addEventListener('click', (e) => { e.stopPropagation(); /* TODO: Menu */ });
+  /**
+   * Brings the rendered columns in line with the active view after columns were moved, added or deleted:
+   * cells are reordered, created or removed in place, so other cells keep their DOM (focus, open editors).
+   * Moved columns slide from their old position to the new one.
+   */
+  private updateColumns() {
+    const headerRow = this.headerRow;
+    if (!headerRow || !headerRow.isConnected) { this.render(); return; }
+    const columns = this.viewHandler.getVisibleColumns();
+    const searchQuery = this.getSearchQuery();
+
+    // First: where the columns are now
+    const firstLefts = new Map<string, number>();
+    headerRow.querySelectorAll('th[data-col-id]').forEach(th => {
+      firstLefts.set(th.getAttribute('data-col-id') as string, th.getBoundingClientRect().left);
+    });
 
-    // Add Column Button Div
-    const addColBtnDiv = buttonContainer.createEl('div', { cls: 'json-table-btn json-table-btn--icon', attr: { 'aria-label': 'Add column', title: 'Add column' } });
-    const plusIcon = createIconElement(ICON_NAMES.plus, 18);
-    addColBtnDiv.appendChild(plusIcon);
-    let isAddColPopupOpen = false;
-    addColBtnDiv.addEventListener('click', (e) => {
-        e.preventDefault(); e.stopPropagation(); if (isAddColPopupOpen) return;
-        isAddColPopupOpen = true;
-        this.showAddColumnDialog(buttonsTh, addColBtnDiv, this.data, () => { isAddColPopupOpen = false; });
+    this.renderColGroup();
+    this.arrangeCells(headerRow, columns, col => this.renderHeaderCell(headerRow, col));
+    this.rowElements.forEach((tr, row) => {
+      this.arrangeCells(tr, columns, col => this.renderCell(tr, row, ensureRowId(row), col, searchQuery));
+    });
+    this.container.querySelectorAll('.json-table-group-header > td, .json-table-spacer-row > td').forEach(td => {
+      td.setAttribute('colspan', (columns.length + 1).toString());
+    });
+    this.summaryHandler.update();
+
+    // Last, Invert, Play: slide each moved column's cells from the old position
+    if (!this.shouldAnimate() || this.rowElements.size > MAX_ANIMATED_ROWS) return;
+    headerRow.querySelectorAll('th[data-col-id]').forEach(th => {
+      const columnId = th.getAttribute('data-col-id') as string;
+      const firstLeft = firstLefts.get(columnId);
+      if (firstLeft === undefined) return; // New column; nothing to slide from
+      const offset = firstLeft - th.getBoundingClientRect().left;
+      if (Math.abs(offset) < 1) return;
+      const cells = [th, ...Array.from(this.container.querySelectorAll(`td[data-col-id="${columnId}"]`))];
+      cells.forEach(cell => cell.animate(
+        [{ transform: `translateX(${offset}px)` }, { transform: 'translateX(0)' }],
+        { duration: ROW_ANIMATION_MS, easing: 'ease-out' }
+      ));
     });
   }
 
+  /**
+   * Orders a row's column cells (header or body) to match the given columns, keeping the cells that exist,
+   * creating missing ones and removing those of columns no longer shown. The last cell (row actions, or the
+   * header buttons) stays last.
+   */
+  private arrangeCells(tr: HTMLElement, columns: ColumnDef[], createCell: (col: ColumnDef) => HTMLElement) {
+    const cells = new Map<string, Element>();
+    Array.from(tr.children).forEach(cell => {
+      const columnId = cell.getAttribute('data-col-id');
+      if (columnId) cells.set(columnId, cell);
+    });
+    const lastCell = tr.lastElementChild;
+    columns.forEach(col => {
+      const cell = cells.get(col.id) || createCell(col);
+      cells.delete(col.id);
+      tr.insertBefore(cell, lastCell);
+    });
+    cells.forEach(cell => cell.remove());
+  }
+
   // --- Body Rendering ---
 
+  /** Filters and searches, then sorts a copy for display; this.data.rows keeps the stored order */
+  private getRowsToDisplay(): CellData[][] {
+    return this.sortHandler.getSortedRows(this.getSearchedRows(this.filterHandler.getFilteredRows()));
+  }
+
   private renderBody(table: HTMLTableElement, rowsToRender: CellData[][]) { // Accept filtered rows
     const tbody = table.createEl('tbody');
-    
-    // Build row index map once before loop - O(N) instead of O(N²)
-    const rowIndexMap = new Map<CellData[], number>();
-    this.data.rows.forEach((row, idx) => rowIndexMap.set(row, idx));
-    
-    rowsToRender.forEach((row) => { // Iterate over filtered rows
-      const tr = tbody.createEl('tr', { cls: 'json-table-row' });
+    this.tbody = tbody;
+    this.rowElements.clear();
+    this.renderedRange = null;
+    this.draggedRowId = null;
+
+    if (this.groupHandler.getGroupColumn()) {
+      this.renderGroupedBody(tbody, rowsToRender);
+      return;
+    }
 
-      // Fast O(1) lookup instead of O(N) findIndex
-      const originalRowIndex = rowIndexMap.get(row) ?? -1;
+    if (rowsToRender.length < VIRTUALIZE_MIN_ROWS) {
+      rowsToRender.forEach((row, displayIndex) => this.renderBodyRow(tbody, row, displayIndex));
+      return;
+    }
 
-      this.renderRow(tr, row, this.data.columns, originalRowIndex, this.data); // Pass original index
+    // Long table: spacer rows stand in for everything outside the window.
+    // Start with the full height so render() can restore the scroll position before filling the window.
+    this.renderedRange = { start: 0, end: 0 };
+    this.createSpacerRow(tbody, 'json-table-spacer-top', 0);
+    this.createSpacerRow(tbody, 'json-table-spacer-bottom', rowsToRender.length * this.rowHeight);
+  }
 
-      // Render delete cell
-      const deleteCell = tr.createEl('td', { cls: 'json-table-row-actions-cell' }); // Sticky cell for actions
-      const cellContent = deleteCell.createEl('div', { cls: 'json-table-cell-content' });
-      const deleteButton = cellContent.createEl('div', { cls: 'json-table-btn json-table-btn--icon', attr: { 'aria-label': 'Delete row', title: 'Delete row' } });
-      const trashIcon = createIconElement(ICON_NAMES.trash, 16);
-      deleteButton.appendChild(trashIcon);
+  /**
+   * Renders a header per group followed by the group's rows, unless it is collapsed.
+   * Grouped tables are not virtualized; displayedRows holds the rows of expanded groups in display order.
+   */
+  private renderGroupedBody(tbody: HTMLTableSectionElement, rowsToRender: CellData[][]) {
+    const expandedRows: CellData[][] = [];
+    this.groupHandler.getGroups(rowsToRender).forEach(group => {
+      const collapsed = this.groupHandler.isCollapsed(group);
+      this.renderGroupHeader(tbody, group, collapsed);
+      if (collapsed) return;
+      group.rows.forEach((row, index) => this.renderBodyRow(tbody, row, index));
+      expandedRows.push(...group.rows);
+    });
+    this.displayedRows = expandedRows;
+  }
 
-      deleteButton.addEventListener('click', async (e) => {
-        e.stopPropagation();
-        if (originalRowIndex > -1) { // Ensure original index was found
-          this.data.rows.splice(originalRowIndex, 1); // Delete from original data
-          await this.view.saveTableData(this.data);
-          this.render(); // Re-render
-        } else {
-           console.error("Could not find original row index for deletion while filtered.");
-        }
+  /** A full-width row naming the group, with its row count and a button adding a row to it */
+  private renderGroupHeader(tbody: HTMLTableSectionElement, group: RowGroup, collapsed: boolean) {
+    const tr = tbody.createEl('tr', { cls: 'json-table-group-header' });
+    tr.toggleClass('is-collapsed', collapsed);
+    const td = tr.createEl('td', { attr: { colspan: this.viewHandler.getVisibleColumns().length + 1 } });
+    const content = td.createDiv({ cls: 'json-table-group-header-content' });
+
+    content.appendChild(createIconElement(collapsed ? ICON_NAMES.chevronRight : ICON_NAMES.chevronDown, 16));
+    if (group.tags) {
+      group.tags.forEach(option => {
+        const tag = content.createSpan({ cls: 'json-table-dropdown-tag', text: option.value });
+        if (option.style) tag.addClass(`dropdown-tag--${option.style}`);
       });
-      // Add empty cell below the combined buttons header if it wasn't the delete cell
-      // tr.createEl('td', { cls: 'json-table-buttons-cell' }); // This seems redundant if actions cell is last
+    } else {
+      content.createSpan({ cls: 'json-table-group-label', text: group.label });
+    }
+    content.createSpan({ cls: 'json-table-group-count', text: group.rows.length.toString() });
+
+    const addButton = content.createDiv({
+      cls: 'json-table-btn json-table-btn--icon json-table-group-add',
+      attr: { 'aria-label': 'Add row to group', title: 'Add row to group' }
+    });
+    addButton.appendChild(createIconElement(ICON_NAMES.plus, 14));
+    addButton.addEventListener('click', (e) => {
+      e.stopPropagation();
+      const groupColumn = this.groupHandler.getGroupColumn();
+      if (!groupColumn) return;
+      this.groupHandler.expand(group); // Saved with the new row
+      this.addRow({ [groupColumn.id]: group.value });
+    });
+
+    tr.addEventListener('click', () => this.groupHandler.toggleCollapsed(group));
+  }
+
+  /** Renders one <tr> (cells plus actions) for a displayed row and appends it to the tbody */
+  private renderBodyRow(tbody: HTMLTableSectionElement, row: CellData[], displayIndex: number): HTMLElement {
+    const canReorder = !this.isSortActive(); // Manual order is meaningless while sorted
+    const tr = tbody.createEl('tr', { cls: 'json-table-row' });
+    // Striping by display index; nth-child would shift with the spacer rows
+    if (displayIndex % 2 === 1) tr.addClass('is-alt-row');
+    this.rowElements.set(row, tr);
+    tr.addEventListener('focusin', () => { this.focusedRow = row; });
+
+    // Rows are addressed by ID: the <tr> outlives add/delete/move updates that shift stored indices
+    const rowId = ensureRowId(row);
+
+    this.renderRow(tr, row, rowId, this.viewHandler.getVisibleColumns());
+
+    // Render actions cell (drag handle + delete)
+    const deleteCell = tr.createEl('td', { cls: 'json-table-row-actions-cell' }); // Sticky cell for actions
+    const cellContent = deleteCell.createEl('div', { cls: 'json-table-cell-content' });
+
+    // Drag Handle
+    const dragHandle = cellContent.createEl('div', {
+      cls: 'json-table-btn json-table-btn--icon json-table-row-drag-handle',
+      attr: {
+        tabindex: 0,
+        'aria-label': canReorder ? 'Drag to move row' : 'Clear sorting to reorder rows',
+        title: canReorder ? 'Drag to move row' : 'Clear sorting to reorder rows'
+      }
+    });
+    dragHandle.appendChild(createIconElement(ICON_NAMES.gripVertical, 16));
+    if (!canReorder) dragHandle.addClass('is-disabled');
+
+    // The row only becomes draggable while the handle is held, so cell inputs keep normal text selection
+    dragHandle.addEventListener('mousedown', () => { if (canReorder) tr.draggable = true; });
+    dragHandle.addEventListener('mouseup', () => { tr.draggable = false; });
+    tr.addEventListener('dragstart', (e) => {
+      if (!tr.draggable || !e.dataTransfer) return;
+      e.dataTransfer.effectAllowed = 'move';
+      this.draggedRowId = rowId;
+      tr.addClass('is-dragging');
     });
+    tr.addEventListener('dragover', (e) => {
+      if (this.draggedRowId === null) return;
+      e.preventDefault(); if (e.dataTransfer) e.dataTransfer.dropEffect = 'move';
+      // Show the drop line on the side the row will land
+      const draggedRowIndex = findRowIndexById(this.data, this.draggedRowId);
+      const targetRowIndex = findRowIndexById(this.data, rowId);
+      tr.toggleClass('is-dragover-above', draggedRowIndex > targetRowIndex);
+      tr.toggleClass('is-dragover-below', draggedRowIndex < targetRowIndex);
+    });
+    tr.addEventListener('dragleave', () => { tr.removeClass('is-dragover-above'); tr.removeClass('is-dragover-below'); });
+    tr.addEventListener('drop', (e) => {
+      e.preventDefault(); tr.removeClass('is-dragover-above'); tr.removeClass('is-dragover-below');
+      const draggedRowId = this.draggedRowId;
+      this.draggedRowId = null; // The dragged <tr> may have been scrolled out and never get dragend
+      if (draggedRowId === null || draggedRowId === rowId) return;
+      this.moveRow(draggedRowId, rowId);
+    });
+    tr.addEventListener('dragend', () => {
+      tr.draggable = false; tr.removeClass('is-dragging'); this.draggedRowId = null;
+    });
+
+    const deleteButton = cellContent.createEl('div', { cls: 'json-table-btn json-table-btn--icon', attr: { 'aria-label': 'Delete row', title: 'Delete row' } });
+    const trashIcon = createIconElement(ICON_NAMES.trash, 16);
+    deleteButton.appendChild(trashIcon);
+
+    deleteButton.addEventListener('click', async (e) => {
+      e.stopPropagation();
+      const rowIndex = findRowIndexById(this.data, rowId);
+      if (rowIndex > -1) {
+        this.data.rows.splice(rowIndex, 1); // Delete from the stored (unfiltered) rows
+        await this.view.saveTableData(this.data);
+        this.updateRows(); // Only this row's <tr> goes away
+      } else {
+         console.error(`Could not find row ${rowId} to delete.`);
+      }
+    });
+    return tr;
   }
 
+  // --- Row Virtualization ---
 
-  private renderRow(tr: HTMLElement, row: CellData[], columns: ColumnDef[], originalRowIndex: number, data: TableData) {
-    const cellMap = new Map<string, string>();
-    row.forEach(cell => cellMap.set(cell.column, cell.value));
+  /** An empty full-width row whose height stands in for rows that aren't rendered */
+  private createSpacerRow(tbody: HTMLTableSectionElement, cls: string, height: number) {
+    const spacer = tbody.createEl('tr', { cls: `json-table-spacer-row ${cls}`, attr: { 'aria-hidden': 'true' } });
+    const td = spacer.createEl('td', { attr: { colspan: this.viewHandler.getVisibleColumns().length + 1 } });
+    td.style.height = `${height}px`;
+  }
 
-    columns.forEach((col) => {
-      const value = cellMap.get(col.id) || '';
-      const td = tr.createEl('td', { cls: 'json-table-cell' });
+  /** Called by the view when its container scrolls or resizes; batches window updates per frame */
+  public onContainerScroll() {
+    if (!this.renderedRange || this.scrollFrame !== null) return;
+    this.scrollFrame = requestAnimationFrame(() => {
+      this.scrollFrame = null;
+      this.updateVirtualWindow();
+    });
+  }
 
-      let renderer = this.cellRenderers.get(col.type) || this.cellRenderers.get('text');
-      if (!renderer) { /* ... error handling ... */ return; }
+  /**
+   * Materializes the rows in and near the viewport and resizes the spacers for the rest.
+   * Rows that stay inside the window keep their <tr>, so a cell being edited isn't rebuilt while scrolling.
+   */
+  private updateVirtualWindow(force: boolean = false) {
+    const tbody = this.tbody;
+    const range = this.renderedRange;
+    if (!tbody || !range || !tbody.isConnected) return;
+    const topSpacer = tbody.querySelector('.json-table-spacer-top') as HTMLElement | null;
+    const bottomSpacer = tbody.querySelector('.json-table-spacer-bottom') as HTMLElement | null;
+    if (!topSpacer || !bottomSpacer) return;
+
+    // The view container is the scrolling element; find where the rows start within its content
+    const scroller = this.container as HTMLElement;
+    const bodyTop = tbody.getBoundingClientRect().top - scroller.getBoundingClientRect().top + scroller.scrollTop;
+    const firstVisible = Math.floor((scroller.scrollTop - bodyTop) / this.rowHeight);
+    const visibleCount = Math.ceil(scroller.clientHeight / this.rowHeight);
+    const total = this.displayedRows.length;
+    const start = Math.min(total, Math.max(0, firstVisible - VIRTUAL_OVERSCAN_ROWS));
+    const end = Math.min(total, Math.max(start, firstVisible + visibleCount + VIRTUAL_OVERSCAN_ROWS));
+    if (!force && start === range.start && end === range.end) return;
+
+    // Drop rows that left the window (or the displayed rows altogether)
+    const windowRows = new Set(this.displayedRows.slice(start, end));
+    this.rowElements.forEach((tr, row) => {
+      if (windowRows.has(row)) return;
+      tr.remove();
+      this.rowElements.delete(row);
+    });
 
-      const onCellChange = async (newValue: string) => {
-        const cellData = row.find(c => c.column === col.id);
-        if (cellData) { cellData.value = newValue; }
-        else { row.push({ column: col.id, value: newValue }); }
+    // Add rows that entered it, keeping DOM order
+    const previous = this.placeRows(tbody, topSpacer, start, end);
+    this.renderedRange = { start, end };
 
-        await this.view.saveTableData(data);
-        // Re-render if sort/filter might change
-         if (this.sortHandler.getCurrentSortRules().some(rule => rule.columnId === col.id) || this.filterHandler.hasActiveFilters()) {
-            this.render();
-         }
-      };
-      renderer.render(this.view.app, td, value, col, onCellChange);
+    // Use the real row height once rows exist, so spacers match what they replace
+    const sampleRow = previous && previous !== topSpacer ? previous as HTMLElement : null;
+    if (sampleRow && sampleRow.offsetHeight > 0) this.rowHeight = sampleRow.offsetHeight;
+    (topSpacer.firstElementChild as HTMLElement).style.height = `${start * this.rowHeight}px`;
+    (bottomSpacer.firstElementChild as HTMLElement).style.height = `${(total - end) * this.rowHeight}px`;
+  }
+
+  /**
+   * Puts the <tr>s for displayedRows[start..end) in order after `after` (null = start of the tbody),
+   * reusing existing ones.
+   * @returns The last placed row (or `after` if none).
+   */
+  private placeRows(tbody: HTMLTableSectionElement, after: Node | null, start: number, end: number): Node | null {
+    let previous = after;
+    for (let i = start; i < end; i++) {
+      const row = this.displayedRows[i];
+      const tr = this.rowElements.get(row) || this.renderBodyRow(tbody, row, i);
+      tr.toggleClass('is-alt-row', i % 2 === 1);
+      const expectedNext = previous ? previous.nextSibling : tbody.firstChild;
+      if (expectedNext !== tr) tbody.insertBefore(tr, expectedNext);
+      previous = tr;
+    }
+    return previous;
+  }
+
+  // --- Incremental Updates ---
+
+  /**
+   * Re-applies filter, search and sort after a data change and updates only the affected rows:
+   * rows that no longer match fade out, new rows are created, and rows that changed position slide
+   * to their new place. Other rows keep their DOM (and focus, open editors, etc.).
+   */
+  public async updateRows() {
+    const tbody = this.tbody;
+    if (!tbody || !tbody.isConnected) { this.render(); return; }
+    const updateId = ++this.updateCounter;
+
+    // Rows may move between groups and group headers change; rebuild grouped tables
+    if (this.groupHandler.getGroupColumn()) {
+      const cellEdit = this.captureCellEdit();
+      this.render();
+      if (cellEdit) this.restoreCellEdit(cellEdit);
+      return;
+    }
+
+    const rowsToDisplay = this.getRowsToDisplay();
+    // Switching between full and windowed rendering changes the tbody structure; rebuild it
+    if ((this.renderedRange !== null) !== (rowsToDisplay.length >= VIRTUALIZE_MIN_ROWS)) {
+      this.render();
+      return;
+    }
+
+    // Fade out rows that are leaving before the others move into their space
+    const displaySet = new Set(rowsToDisplay);
+    const leaving: HTMLElement[] = [];
+    this.rowElements.forEach((tr, row) => { if (!displaySet.has(row)) leaving.push(tr); });
+    if (leaving.length > 0 && leaving.length <= MAX_ANIMATED_ROWS && this.shouldAnimate()) {
+      await Promise.all(leaving.map(tr => tr.animate([{ opacity: 1 }, { opacity: 0 }], { duration: ROW_ANIMATION_MS }).finished));
+      if (updateId !== this.updateCounter) return; // A newer update took over
+    }
+
+    // First: where rows are now
+    const firstTops = new Map<CellData[], number>();
+    this.rowElements.forEach((tr, row) => firstTops.set(row, tr.getBoundingClientRect().top));
+
+    this.displayedRows = rowsToDisplay;
+    this.summaryHandler.update(rowsToDisplay);
+    if (this.focusedRow && !this.data.rows.includes(this.focusedRow)) this.focusedRow = null;
+    if (this.renderedRange) {
+      this.updateVirtualWindow(true);
+    } else {
+      this.rowElements.forEach((tr, row) => {
+        if (displaySet.has(row)) return;
+        tr.remove();
+        this.rowElements.delete(row);
+      });
+      this.placeRows(tbody, null, 0, rowsToDisplay.length);
+    }
+
+    // Last, Invert, Play: slide moved rows from their old position to the new one
+    if (!this.shouldAnimate()) return;
+    const moves: { tr: HTMLElement; offset: number }[] = [];
+    this.rowElements.forEach((tr, row) => {
+      const firstTop = firstTops.get(row);
+      if (firstTop === undefined) return; // New row; nothing to slide from
+      const offset = firstTop - tr.getBoundingClientRect().top;
+      if (Math.abs(offset) >= 1) moves.push({ tr, offset });
+    });
+    if (moves.length > MAX_ANIMATED_ROWS) return;
+    moves.forEach(({ tr, offset }) => {
+      tr.animate(
+        [{ transform: `translateY(${offset}px)` }, { transform: 'translateY(0)' }],
+        { duration: ROW_ANIMATION_MS, easing: 'ease-out' }
+      );
+    });
+  }
+
+  private shouldAnimate(): boolean {
+    return !window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+  }
+
+  /** Scrolls a displayed row into view, rendering it first if it's outside the virtual window */
+  private scrollRowIntoView(row: CellData[]): HTMLElement | null {
+    if (this.renderedRange && this.tbody) {
+      const displayIndex = this.displayedRows.indexOf(row);
+      if (displayIndex === -1) return null;
+      const scroller = this.container as HTMLElement;
+      const bodyTop = this.tbody.getBoundingClientRect().top - scroller.getBoundingClientRect().top + scroller.scrollTop;
+      const rowTop = bodyTop + displayIndex * this.rowHeight;
+      if (rowTop < scroller.scrollTop || rowTop + this.rowHeight > scroller.scrollTop + scroller.clientHeight) {
+        scroller.scrollTop = rowTop - scroller.clientHeight / 2;
+      }
+      this.updateVirtualWindow();
+    }
+    const tr = this.rowElements.get(row) || null;
+    tr?.scrollIntoView({ block: 'nearest' });
+    return tr;
+  }
+
+  // --- Cell Edit Preservation ---
+
+  /** Describes the focused cell (and unsaved text in it) so it can be restored after a reload */
+  public captureCellEdit(): CellEditState | null {
+    const active = document.activeElement as HTMLElement | null;
+    if (!active || !this.container.contains(active)) return null;
+    const td = active.closest('td[data-col-id]');
+    const tr = td?.closest('tr');
+    if (!td || !tr) return null;
+
+    let focusedRow: CellData[] | null = null;
+    this.rowElements.forEach((rowTr, row) => { if (rowTr === tr) focusedRow = row; });
+    if (!focusedRow) return null;
+
+    const rowId = getRowId(focusedRow);
+    if (!rowId) return null;
+
+    const input = active instanceof HTMLInputElement && active.type !== 'checkbox' ? active : null;
+    return {
+      rowId: rowId,
+      columnId: td.getAttribute('data-col-id') || '',
+      value: input ? input.value : null,
+      selectionStart: input?.selectionStart ?? null,
+      selectionEnd: input?.selectionEnd ?? null,
+    };
+  }
+
+  /** Refocuses the captured cell (matched by row ID and column) and puts back its unsaved text */
+  public restoreCellEdit(state: CellEditState) {
+    const row = findRowById(this.data, state.rowId);
+    if (!row || !this.displayedRows.includes(row)) return;
+    const tr = this.scrollRowIntoView(row);
+    const target = tr?.querySelector(`td[data-col-id="${state.columnId}"] input`) as HTMLInputElement | null;
+    if (!target) return;
+    target.focus();
+    if (state.value !== null && target.type !== 'checkbox') {
+      target.value = state.value;
+      if (state.selectionStart !== null && state.selectionEnd !== null) {
+        target.setSelectionRange(state.selectionStart, state.selectionEnd);
+      }
+    }
+  }
+
+  // --- Row Reordering ---
+
+  private isSortActive(): boolean {
+    return this.sortHandler.getCurrentSortRules().length > 0;
+  }
+
+  /** Moves a row to another row's position in this.data.rows (the stored order) and re-renders */
+  private async moveRow(movedRowId: string, targetRowId: string) {
+    const fromIndex = findRowIndexById(this.data, movedRowId);
+    const toIndex = findRowIndexById(this.data, targetRowId);
+    if (fromIndex === toIndex || fromIndex < 0 || toIndex < 0) return;
+    const movedRow = this.data.rows.splice(fromIndex, 1)[0];
+    this.data.rows.splice(toIndex, 0, movedRow);
+    await this.view.saveTableData(this.data);
+    await this.updateRows();
+  }
+
+  public hasFocusedRow(): boolean {
+    return this.focusedRow !== null;
+  }
+
+  /**
+   * Swaps the last focused row with its visible neighbour (keyboard equivalent of dragging).
+   * @param offset -1 to move up, 1 to move down.
+   */
+  public async moveFocusedRow(offset: -1 | 1) {
+    const row = this.focusedRow;
+    if (!row) return;
+    if (this.isSortActive()) {
+      new Notice('Clear sorting to reorder rows manually.');
+      return;
+    }
+    const displayIndex = this.displayedRows.indexOf(row);
+    const neighbour = this.displayedRows[displayIndex + offset];
+    if (displayIndex === -1 || !neighbour) return; // Already at the top/bottom
+
+    // Remember which cell had focus so it can be restored after re-render
+    const activeCell = (document.activeElement as HTMLElement | null)?.closest('td');
+    const focusedColumnId = activeCell?.getAttribute('data-col-id');
+
+    await this.moveRow(ensureRowId(row), ensureRowId(neighbour));
+
+    const tr = this.rowElements.get(row);
+    const focusTarget = (focusedColumnId && tr?.querySelector(`td[data-col-id="${focusedColumnId}"] input`))
+      || tr?.querySelector('.json-table-row-drag-handle');
+    (focusTarget as HTMLElement | null)?.focus();
+  }
+
+
+  private renderRow(tr: HTMLElement, row: CellData[], rowId: string, columns: ColumnDef[]) {
+    const searchQuery = this.getSearchQuery();
+    columns.forEach((col) => this.renderCell(tr, row, rowId, col, searchQuery));
+  }
+
+  /** Appends the cell of one column to a row's <tr> */
+  private renderCell(tr: HTMLElement, row: CellData[], rowId: string, col: ColumnDef, searchQuery: string): HTMLElement {
+    const td = tr.createEl('td', { cls: 'json-table-cell', attr: { 'data-col-id': col.id } });
+    if (isComputedColumn(col)) {
+      this.renderComputedCell(td, row, col, searchQuery);
+      return td;
+    }
+    const value = row.find(cell => cell.column === col.id)?.value || '';
+
+    let renderer = this.cellRenderers.get(col.type) || this.cellRenderers.get('text');
+    if (!renderer) { /* ... error handling ... */ return td; }
+
+    const onCellChange = async (newValue: string) => {
+      // The row was deleted or replaced by a reload while this cell was being edited
+      if (findRowById(this.data, rowId) !== row) return;
+      const cellData = row.find(c => c.column === col.id);
+      const oldValue = cellData?.value || '';
+      if (cellData) { cellData.value = newValue; }
+      else { row.push({ column: col.id, value: newValue }); }
+
+      await this.view.saveTableData(this.data);
+      if (col.type === 'relation') {
+        const targetPath = (col.typeOptions as RelationTypeOptions | undefined)?.targetTable;
+        if (targetPath) await this.view.relatedTables.saveUnsavedRowIds(targetPath);
+        // Reciprocal links point back at this row by its stable ID
+        await this.view.relatedTables.syncReciprocal(col, rowId, oldValue, newValue);
+      }
+      this.refreshComputedCells(tr, row);
+      this.summaryHandler.update();
+      // Update row order/visibility if sort/filter/grouping might change
+       if (this.sortHandler.getCurrentSortRules().some(rule => rule.columnId === col.id) || this.filterHandler.hasActiveFilters() || this.getSearchQuery()
+           || this.groupHandler.getGroupColumn()?.id === col.id) {
+          this.updateRows();
+       }
+    };
+    renderer.render(this.view.app, td, value, col, onCellChange);
+    if (searchQuery) this.highlightSearchMatches(td, searchQuery);
+    return td;
+  }
+
+  /** Computes and renders a formula or rollup cell; formula errors show as #ERROR with the reason on hover */
+  private renderComputedCell(td: HTMLElement, row: CellData[], col: ColumnDef, searchQuery: string) {
+    const renderer = this.cellRenderers.get(col.type);
+    if (!renderer) return;
+    const { text, error } = this.getComputedDisplay(row, col);
+    renderer.render(this.view.app, td, text, col, () => {});
+    if (error) td.setAttr('title', error);
+    if (searchQuery) this.highlightSearchMatches(td, searchQuery);
+  }
+
+  /** The text a formula or rollup cell shows, and the error when a formula can't be computed */
+  private getComputedDisplay(row: CellData[], col: ColumnDef): { text: string; error?: string } {
+    if (col.type === 'formula') {
+      const result = computeFormula(this.data, row, col);
+      return result.error
+        ? { text: FORMULA_ERROR_DISPLAY, error: result.error }
+        : { text: formulaValueToDisplay(result.value) };
+    }
+
+    const result = computeRollup(this.data, row, col, this.view.relatedTables);
+    if (result.pendingTable) this.loadRelatedTable(result.pendingTable);
+    const renderer = this.cellRenderers.get(result.displayColumn.type);
+    return { text: renderer ? renderer.getDisplayValue(this.view.app, result.value, result.displayColumn) : result.value };
+  }
+
+  /** Reads a related table that rollups need, then re-renders so they (and sorting/filtering) use it */
+  private loadRelatedTable(path: string) {
+    if (this.loadingRelatedTables.has(path)) return;
+    this.loadingRelatedTables.add(path);
+    this.view.relatedTables.load(path).then(loaded => {
+      this.loadingRelatedTables.delete(path);
+      if (!loaded) return;
+      const cellEdit = this.captureCellEdit();
+      this.render();
+      if (cellEdit) this.restoreCellEdit(cellEdit);
+    });
+  }
+
+  /** Recomputes a row's formula and rollup cells after one of its values changed */
+  private refreshComputedCells(tr: HTMLElement, row: CellData[]) {
+    const searchQuery = this.getSearchQuery();
+    this.viewHandler.getVisibleColumns()
+      .filter(isComputedColumn)
+      .forEach(col => {
+        const td = tr.querySelector(`td[data-col-id="${col.id}"]`) as HTMLElement | null;
+        if (!td) return;
+        td.empty();
+        td.removeAttribute('title');
+        this.renderComputedCell(td, row, col, searchQuery);
+      });
+  }
+
+  // --- Quick Search ---
+
+  /** The search text, normalised for matching ('' when no search is active) */
+  private getSearchQuery(): string {
+    return this.searchQuery.trim().toLowerCase();
+  }
+
+  private renderSearchInput(container: HTMLElement) {
+    const searchWrapper = container.createDiv({ cls: 'json-table-search' });
+    searchWrapper.appendChild(createIconElement(ICON_NAMES.search, 14, 'icon-search'));
+    const searchInput = searchWrapper.createEl('input', {
+      type: 'search',
+      cls: 'json-table-search-input',
+      value: this.searchQuery,
+      placeholder: 'Search',
+      attr: { 'aria-label': 'Search table' }
+    });
+
+    // render() replaces this input, so put focus and the caret back in the new one
+    const applySearch = () => {
+      const caret = searchInput.selectionStart ?? searchInput.value.length;
+      this.searchQuery = searchInput.value;
+      this.render();
+      const newInput = this.container.querySelector('.json-table-search-input') as HTMLInputElement | null;
+      if (newInput) {
+        newInput.focus();
+        newInput.setSelectionRange(caret, caret);
+      }
+    };
+    // Wait for a pause in typing so large tables don't re-render on every keystroke
+    const debouncedSearch = debounce(applySearch, 200, true);
+
+    searchInput.addEventListener('input', () => debouncedSearch());
+    searchInput.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape' && searchInput.value) {
+        e.preventDefault();
+        searchInput.value = '';
+        applySearch();
+      } else if (e.key === 'Enter') {
+        e.preventDefault();
+        applySearch(); // Don't wait for the debounce
+      }
+    });
+  }
+
+  /** Keeps rows where any visible cell's displayed text contains the search query */
+  private getSearchedRows(rows: CellData[][]): CellData[][] {
+    const query = this.getSearchQuery();
+    if (!query) return rows;
+    const columns = this.viewHandler.getVisibleColumns();
+    return rows.filter(row => columns.some(col => this.getCellDisplayValue(row, col).toLowerCase().includes(query)));
+  }
+
+  /** The text a cell shows (formatted date, note basename, ...) as reported by its renderer */
+  public getCellDisplayValue(row: CellData[], col: ColumnDef): string {
+    if (isComputedColumn(col)) return this.getComputedDisplay(row, col).text;
+    const value = row.find(cell => cell.column === col.id)?.value || '';
+    const renderer = this.cellRenderers.get(col.type) || this.cellRenderers.get('text');
+    return renderer ? renderer.getDisplayValue(this.view.app, value, col) : value;
+  }
+
+  // --- Export ---
+
+  /**
+   * The rows and columns to export: the whole table in stored order, or the active view's
+   * filtered rows in display order (by group, then sort) with its visible columns. The quick search isn't applied.
+   */
+  public getExportSource(scope: ExportScope): ExportSource {
+    let columns = this.data.columns;
+    let rows = this.data.rows;
+    if (scope === 'view') {
+      columns = this.viewHandler.getVisibleColumns();
+      rows = this.sortHandler.getSortedRows(this.filterHandler.getFilteredRows());
+      if (this.groupHandler.getGroupColumn()) {
+        rows = this.groupHandler.getGroups(rows).reduce((all: CellData[][], group) => all.concat(group.rows), []);
+      }
+    }
+    return {
+      columns: columns,
+      rows: rows,
+      getRawValue: (row, col) => getCellValue(this.data, row, col, this.view.relatedTables),
+      getDisplayValue: (row, col) => this.getCellDisplayValue(row, col),
+    };
+  }
+
+  /**
+   * Wraps search matches in <mark> within the cell's text.
+   * Input values can't contain markup, so a matching input marks the whole cell instead.
+   */
+  private highlightSearchMatches(td: HTMLElement, query: string) {
+    td.querySelectorAll('input').forEach(input => {
+      if (input.type !== 'checkbox' && input.value.toLowerCase().includes(query)) td.addClass('has-search-match');
+    });
+
+    const walker = document.createTreeWalker(td, NodeFilter.SHOW_TEXT);
+    const textNodes: Text[] = [];
+    while (walker.nextNode()) textNodes.push(walker.currentNode as Text);
+
+    textNodes.forEach(node => {
+      const text = node.nodeValue || '';
+      const lowerText = text.toLowerCase();
+      let matchIndex = lowerText.indexOf(query);
+      if (matchIndex === -1) return;
+
+      const fragment = document.createDocumentFragment();
+      let lastIndex = 0;
+      while (matchIndex !== -1) {
+        fragment.appendChild(document.createTextNode(text.substring(lastIndex, matchIndex)));
+        const mark = document.createElement('mark');
+        mark.className = 'json-table-search-match';
+        mark.textContent = text.substring(matchIndex, matchIndex + query.length);
+        fragment.appendChild(mark);
+        lastIndex = matchIndex + query.length;
+        matchIndex = lowerText.indexOf(query, lastIndex);
+      }
+      fragment.appendChild(document.createTextNode(text.substring(lastIndex)));
+      node.parentNode?.replaceChild(fragment, node);
     });
   }
 
@@ -372,39 +1135,50 @@ export class TableRenderer {
       content.appendChild(plusIcon);
       content.createSpan({ text: 'Add row', cls: 'json-table-add-row-text' });
 
-      addRowBtn.addEventListener('click', async () => {
+      addRowBtn.addEventListener('click', () => this.addRow());
+  }
+
+  /**
+   * Appends a new row, scrolls to it and focuses its first cell.
+   * @param prefill Values for some columns (e.g. the group the row is added to), by column ID
+   */
+  private async addRow(prefill: Record<string, string> = {}) {
           let newRowData: Record<string, string> = {};
           this.data.columns.forEach(col => {
               newRowData[col.id] = col.type === 'checkbox' ? 'false' : ''; // Default values
           });
 
-          // Pre-populate based on filter
-          const activeFilters = this.filterHandler.getCurrentFilterRules();
-          activeFilters.forEach(rule => {
-              if (rule.operator === 'equals' && rule.value && newRowData.hasOwnProperty(rule.columnId)) {
-                  newRowData[rule.columnId] = rule.value;
-              }
-              // TODO: Add logic for other operators if applicable for pre-population
+          // Pre-populate based on filter, so the new row isn't hidden right away
+          const filterValues = this.filterHandler.getNewRowValues();
+          Object.keys(filterValues).forEach(colId => {
+              if (newRowData.hasOwnProperty(colId)) newRowData[colId] = filterValues[colId];
+          });
+          Object.keys(prefill).forEach(colId => {
+              if (newRowData.hasOwnProperty(colId)) newRowData[colId] = prefill[colId];
           });
 
           const newRow: CellData[] = Object.entries(newRowData).map(([colId, val]) => ({
               column: colId, value: val
           }));
+          newRow.push({ column: ROW_ID_COLUMN, value: createRowId() });
 
           this.data.rows.push(newRow); // Add to unfiltered data
           await this.view.saveTableData(this.data);
-          this.render(); // Re-render applies filters/sort
-      });
+          await this.updateRows(); // Applies filters/sort without rebuilding the other rows
+
+          // Bring the new row into view and start editing its first cell
+          const newTr = this.scrollRowIntoView(newRow);
+          (newTr?.querySelector('td.json-table-cell input') as HTMLElement | null)?.focus();
   }
 
 
   // --- Column Resizing ---
 
-  private onResizeStart(e: MouseEvent, column: ColumnDef, colIndex: number) {
+  private onResizeStart(e: MouseEvent, column: ColumnDef) {
     if (!this.colGroup) return;
     this.isResizing = true;
     e.preventDefault(); e.stopPropagation();
-    const colElement = this.colGroup.querySelector(`col[data-col-index="${colIndex}"]`) as HTMLTableColElement | null;
+    const colElement = this.colGroup.querySelector(`col[data-col-id="${column.id}"]`) as HTMLTableColElement | null;
     if (!colElement) { this.isResizing = false; return; }
     const startX = e.clientX; const startWidth = colElement.offsetWidth;
     const onMouseMove = (moveE: MouseEvent) => {
@@ -425,7 +1199,7 @@ export class TableRenderer {
 
   // --- Popups: Edit/Add Column ---
 
-  private showEditColumnDialog(headerCell: HTMLElement, column: ColumnDef, data: TableData, colIndex: number) {
+  private showEditColumnDialog(headerCell: HTMLElement, column: ColumnDef, data: TableData) {
     const existingPopup = document.querySelector('.json-table-edit-column-popup');
     if (existingPopup) existingPopup.remove();
     const popup = document.body.createEl('div', { cls: 'json-table-popup json-table-edit-column-popup' });
@@ -454,7 +1228,11 @@ export class TableRenderer {
     const saveColumnName = async () => {
         const newName = nameInput.value.trim();
         let nameChanged = false;
-        if (newName && newName !== column.name) { column.name = newName; nameChanged = true; }
+        if (newName && newName !== column.name) {
+            renameFormulaReferences(data.columns, column.name, newName); // Keep prop("...") references pointing at this column
+            column.name = newName;
+            nameChanged = true;
+        }
         if (nameChanged) {
             await this.view.saveTableData(data);
              // Update header text non-destructively
@@ -467,9 +1245,23 @@ export class TableRenderer {
         closePopup();
     };
     const deleteColumn = async () => { /* ... delete logic ... */
+        const colIndex = data.columns.indexOf(column);
+        if (colIndex === -1) { closePopup(); return; } // Already deleted, e.g. by a reload
+        const wasGroupColumn = this.groupHandler.getGroupColumn()?.id === column.id;
         data.columns.splice(colIndex, 1);
         data.rows.forEach((row) => { const i = row.findIndex(c => c.column === column.id); if (i !== -1) row.splice(i, 1); });
-        await this.view.saveTableData(data); this.render(); closePopup();
+        data.views.forEach((viewDef) => {
+          if (viewDef.hiddenColumns) viewDef.hiddenColumns = viewDef.hiddenColumns.filter(id => id !== column.id);
+          if (viewDef.aggregations) delete viewDef.aggregations[column.id];
+          if (viewDef.groupBy?.columnId === column.id) { delete viewDef.groupBy; delete viewDef.collapsedGroups; }
+        });
+        await this.view.saveTableData(data);
+        closePopup();
+        if (wasGroupColumn) { this.render(); return; } // Ungrouping rebuilds the body and the Group button
+        this.updateColumns();
+        // Formulas that used the column now show an error; sorting and filtering on it stop applying
+        this.rowElements.forEach((tr, row) => this.refreshComputedCells(tr, row));
+        this.updateRows();
     };
 
     // Listeners
@@ -501,11 +1293,15 @@ export class TableRenderer {
 
     const types = [ /* ... type definitions ... */
         { type: 'text' as const, name: 'Text', icon: ICON_NAMES.text },
+        { type: 'number' as const, name: 'Number', icon: ICON_NAMES.number },
         { type: 'checkbox' as const, name: 'Checkbox', icon: ICON_NAMES.checkbox },
         { type: 'dropdown' as const, name: 'Dropdown', icon: ICON_NAMES.dropdown },
         { type: 'multiselect' as const, name: 'Multi-select', icon: ICON_NAMES.multiselect },
         { type: 'notelink' as const, name: 'Note Link', icon: ICON_NAMES.link },
         { type: 'date' as const, name: 'Date', icon: ICON_NAMES.date },
+        { type: 'formula' as const, name: 'Formula', icon: ICON_NAMES.formula },
+        { type: 'relation' as const, name: 'Relation', icon: ICON_NAMES.relation },
+        { type: 'rollup' as const, name: 'Rollup', icon: ICON_NAMES.rollup },
     ];
     const defaultDropdownOptions = [ /* ... default options ... */
         { value: 'To Do', style: 'red' }, { value: 'In Progress', style: 'blue' }, { value: 'Done', style: 'green' }
@@ -520,6 +1316,12 @@ export class TableRenderer {
             let extraProps = {};
             if (type === 'dropdown' || type === 'multiselect') extraProps = { typeOptions: { options: defaultDropdownOptions } };
             if (type === 'date') extraProps = { dateFormat: 'YYYY/MM/DD' };
+            if (type === 'formula') extraProps = { typeOptions: { formula: '' } };
+            if (type === 'rollup') {
+                // Start from the first relation column; the rest is picked in the column settings
+                const relationColumn = data.columns.find(col => col.type === 'relation');
+                extraProps = { typeOptions: { relationColumnId: relationColumn?.id, aggregation: 'count' } };
+            }
             addColumn(type, name, extraProps);
         };
         btnDiv.addEventListener('click', addAction);
@@ -534,7 +1336,7 @@ export class TableRenderer {
         data.columns.push({ id: columnId, name: columnName, type: columnType, width: 150, ...extraProps });
         data.rows.forEach(row => row.push({ column: columnId, value: '' }));
         await this.view.saveTableData(data);
-        this.render();
+        this.updateColumns();
         closePopup();
     };
 
@@ -0,0 +1,294 @@
+// src/ViewHandler.ts
+
+import { Menu, Notice } from 'obsidian';
+import { TableData, ViewDef, ColumnDef, createDefaultView } from './types';
+import { JsonTableView } from './JsonTableView';
+import { ICON_NAMES, createIconElement } from './icons';
+
+/**
+ * Handles the list of named views (tabs) for a table and tracks which one is active.
+ * Sort, filter and hidden-column state always applies to the active view only.
+ */
+export class ViewHandler {
+
+  constructor(
+    private data: TableData,
+    private triggerRender: () => void,
+    private view: JsonTableView
+  ) {
+    // Ensure at least one view exists
+    if (!this.data.views || !Array.isArray(this.data.views) || this.data.views.length === 0) {
+      console.warn("No views array found in data, creating default view.");
+      this.data.views = [createDefaultView()];
+    }
+  }
+
+  // --- Active View ---
+
+  /** Returns the active view for this pane, falling back to the first view */
+  public getActiveView(): ViewDef {
+    const activeId = this.view.getActiveViewId();
+    return this.data.views.find(v => v.id === activeId) || this.data.views[0];
+  }
+
+  private setActiveView(viewDef: ViewDef) {
+    this.view.setActiveViewId(viewDef.id);
+    this.triggerRender();
+  }
+
+  // --- Column Visibility ---
+
+  /** Columns shown in the active view, in table order */
+  public getVisibleColumns(): ColumnDef[] {
+    const hidden = this.getActiveView().hiddenColumns || [];
+    return this.data.columns.filter(col => !hidden.includes(col.id));
+  }
+
+  public hasHiddenColumns(): boolean {
+    const hidden = this.getActiveView().hiddenColumns || [];
+    return this.data.columns.some(col => hidden.includes(col.id));
+  }
+
+  /** Shows or hides a column in the active view */
+  private async setColumnHidden(columnId: string, hidden: boolean) {
+    const activeView = this.getActiveView();
+    const hiddenColumns = (activeView.hiddenColumns || []).filter(id => id !== columnId);
+    if (hidden) hiddenColumns.push(columnId);
+    activeView.hiddenColumns = hiddenColumns;
+    await this.view.saveTableData(this.data);
+    this.triggerRender();
+  }
+
+  // --- UI Method ---
+
+  /** Renders the tab bar listing every view, plus the "new view" button */
+  public renderViewTabs(container: Element): void {
+    const tabBar = container.createDiv({ cls: 'json-table-view-tabs' });
+    const activeView = this.getActiveView();
+    let draggedViewIndex: number | null = null;
+
+    this.data.views.forEach((viewDef, index) => {
+      const tab = tabBar.createDiv({
+        cls: 'json-table-view-tab',
+        attr: { 'data-view-id': viewDef.id, role: 'tab', tabindex: 0 }
+      });
+      if (viewDef.id === activeView.id) tab.addClass('is-active');
+      tab.draggable = true;
+      tab.createSpan({ text: viewDef.name, cls: 'json-table-view-tab-name' });
+
+      tab.addEventListener('click', () => {
+        if (viewDef.id !== this.getActiveView().id) this.setActiveView(viewDef);
+      });
+      tab.addEventListener('keydown', (e) => {
+        if (e.key === 'Enter' || e.key === ' ') { e.preventDefault(); tab.click(); }
+      });
+      tab.addEventListener('dblclick', (e) => {
+        e.preventDefault();
+        this.startRename(tab, viewDef);
+      });
+      tab.addEventListener('contextmenu', (e) => {
+        e.preventDefault();
+        this.showViewMenu(e, tab, viewDef, index);
+      });
+
+      // Drag and Drop to reorder views
+      tab.addEventListener('dragstart', (e) => {
+        if (e.dataTransfer) { e.dataTransfer.effectAllowed = 'move'; draggedViewIndex = index; tab.addClass('is-dragging'); }
+      });
+      tab.addEventListener('dragover', (e) => {
+        e.preventDefault(); if (e.dataTransfer) e.dataTransfer.dropEffect = 'move'; tab.addClass('is-dragover');
+      });
+      tab.addEventListener('dragleave', () => tab.removeClass('is-dragover'));
+      tab.addEventListener('drop', (e) => {
+        e.preventDefault(); tab.removeClass('is-dragover');
+        if (draggedViewIndex === null || draggedViewIndex === index) return;
+        this.moveView(draggedViewIndex, index);
+      });
+      tab.addEventListener('dragend', () => {
+        tab.removeClass('is-dragging'); draggedViewIndex = null;
+      });
+    });
+
+    // New View Button
+    const addViewBtn = tabBar.createDiv({
+      cls: 'json-table-btn json-table-btn--icon json-table-view-tab-add',
+      attr: { 'aria-label': 'New view', title: 'New view' }
+    });
+    addViewBtn.appendChild(createIconElement(ICON_NAMES.plus, 16));
+    addViewBtn.addEventListener('click', () => this.createView());
+  }
+
+  /** Displays the popup for toggling column visibility in the active view */
+  public showColumnVisibilityPopup(button: HTMLButtonElement): void {
+    const existingPopup = document.querySelector('.json-table-columns-popup');
+    if (existingPopup) existingPopup.remove();
+
+    const popup = document.body.createEl('div', { cls: 'json-table-popup json-table-columns-popup' });
+    // Position popup dynamically based on button location
+    const rect = button.getBoundingClientRect();
+    popup.style.top = `${rect.bottom + 5}px`;
+    popup.style.left = `${rect.left}px`;
+
+    // --- Header ---
+    const header = popup.createEl('div', { cls: 'json-table-popup-header' });
+    header.createEl('h3', { text: 'Columns', cls: 'json-table-popup-title' });
+
+    // --- Content ---
+    const content = popup.createEl('div', { cls: 'json-table-popup-content json-table-columns-list' });
+    const hidden = this.getActiveView().hiddenColumns || [];
+    this.data.columns.forEach(col => {
+      const settingDiv = content.createDiv({ cls: 'json-table-editor-setting' });
+      const checkboxId = `column-visible-${col.id}`;
+      const checkbox = settingDiv.createEl('input', { type: 'checkbox', attr: { id: checkboxId } });
+      checkbox.checked = !hidden.includes(col.id);
+      settingDiv.createEl('label', { text: col.name, attr: { for: checkboxId } });
+      checkbox.addEventListener('change', () => {
+        this.setColumnHidden(col.id, !checkbox.checked);
+      });
+    });
+
+    // --- Footer ---
+    const footer = popup.createEl('div', { cls: 'json-table-popup-footer' });
+    const showAllButton = footer.createEl('button', {
+      text: 'Show all',
+      cls: 'json-table-btn json-table-btn--standard'
+    });
+    showAllButton.addEventListener('click', async () => {
+      this.getActiveView().hiddenColumns = [];
+      await this.view.saveTableData(this.data);
+      this.triggerRender();
+      closePopup();
+    });
+
+    // --- Close popup logic ---
+    const closePopup = () => {
+      popup.remove();
+      document.removeEventListener('click', clickOutside, true);
+    };
+
+    const clickOutside = (e: MouseEvent) => {
+      // Close only if click is outside popup AND outside the original button
+      if (!popup.contains(e.target as Node) && !button.contains(e.target as Node)) {
+        closePopup();
+      }
+    };
+
+    // Use timeout and capture phase
+    setTimeout(() => {
+      document.addEventListener('click', clickOutside, true);
+    }, 0);
+  }
+
+  /** Shows the context menu with view actions */
+  private showViewMenu(e: MouseEvent, tab: HTMLElement, viewDef: ViewDef, index: number) {
+    const menu = new Menu();
+    menu.addItem(item => item.setTitle('Rename view').setIcon('pencil')
+      .onClick(() => this.startRename(tab, viewDef)));
+    menu.addItem(item => item.setTitle('Duplicate view').setIcon('copy')
+      .onClick(() => this.duplicateView(viewDef, index)));
+    menu.addItem(item => item.setTitle(viewDef.showSummary ? 'Hide summary row' : 'Show summary row').setIcon('calculator')
+      .onClick(() => this.toggleSummary(viewDef)));
+    if (index > 0) {
+      menu.addItem(item => item.setTitle('Move left').setIcon('arrow-left')
+        .onClick(() => this.moveView(index, index - 1)));
+    }
+    if (index < this.data.views.length - 1) {
+      menu.addItem(item => item.setTitle('Move right').setIcon('arrow-right')
+        .onClick(() => this.moveView(index, index + 1)));
+    }
+    menu.addSeparator();
+    menu.addItem(item => item.setTitle('Delete view').setIcon(ICON_NAMES.trash)
+      .setDisabled(this.data.views.length <= 1)
+      .onClick(() => this.deleteView(viewDef)));
+    menu.showAtMouseEvent(e);
+  }
+
+  /** Replaces the tab label with an inline input to rename the view */
+  private startRename(tab: HTMLElement, viewDef: ViewDef) {
+    tab.empty();
+    tab.draggable = false;
+    const input = tab.createEl('input', {
+      type: 'text',
+      cls: 'json-table-view-tab-input',
+      value: viewDef.name
+    });
+    input.focus(); input.select();
+
+    let finished = false;
+    const finish = async (save: boolean) => {
+      if (finished) return;
+      finished = true;
+      const newName = input.value.trim();
+      if (save && newName && newName !== viewDef.name) {
+        viewDef.name = newName;
+        await this.view.saveTableData(this.data);
+      }
+      this.triggerRender();
+    };
+
+    input.addEventListener('click', (e) => e.stopPropagation());
+    input.addEventListener('blur', () => finish(true));
+    input.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') { e.preventDefault(); finish(true); }
+      else if (e.key === 'Escape') { e.preventDefault(); finish(false); }
+    });
+  }
+
+  // --- View Mutations ---
+
+  private async createView() {
+    const newView = createDefaultView(this.getUniqueName('View'));
+    this.data.views.push(newView);
+    await this.view.saveTableData(this.data);
+    this.setActiveView(newView);
+  }
+
+  private async duplicateView(viewDef: ViewDef, index: number) {
+    const copy: ViewDef = JSON.parse(JSON.stringify(viewDef));
+    copy.id = createDefaultView().id;
+    copy.name = this.getUniqueName(`${viewDef.name} copy`);
+    this.data.views.splice(index + 1, 0, copy);
+    await this.view.saveTableData(this.data);
+    this.setActiveView(copy);
+  }
+
+  /** Shows or hides the summary (footer) row; its calculations are kept while hidden */
+  private async toggleSummary(viewDef: ViewDef) {
+    viewDef.showSummary = !viewDef.showSummary;
+    await this.view.saveTableData(this.data);
+    this.triggerRender();
+  }
+
+  private async moveView(fromIndex: number, toIndex: number) {
+    const moved = this.data.views.splice(fromIndex, 1)[0];
+    this.data.views.splice(toIndex, 0, moved);
+    await this.view.saveTableData(this.data);
+    this.triggerRender();
+  }
+
+  private async deleteView(viewDef: ViewDef) {
+    if (this.data.views.length <= 1) {
+      new Notice('A table needs at least one view.');
+      return;
+    }
+    const wasActive = viewDef.id === this.getActiveView().id;
+    const index = this.data.views.indexOf(viewDef);
+    this.data.views.splice(index, 1);
+    await this.view.saveTableData(this.data);
+    if (wasActive) {
+      this.setActiveView(this.data.views[Math.max(0, index - 1)]);
+    } else {
+      this.triggerRender();
+    }
+  }
+
+  /** Appends a counter to the base name until it doesn't clash with an existing view */
+  private getUniqueName(baseName: string): string {
+    const names = new Set(this.data.views.map(v => v.name));
+    if (!names.has(baseName)) return baseName;
+    let counter = 2;
+    while (names.has(`${baseName} ${counter}`)) counter++;
+    return `${baseName} ${counter}`;
+  }
+
+} // End ViewHandler class
@@ -0,0 +1,143 @@
+// src/aggregations.ts
+
+import { AggregationType } from './types';
+import { parseNumber } from './renderers/NumberRenderer';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const AGGREGATION_LABELS: Record<AggregationType, string> = {
+  count: 'Count',
+  countEmpty: 'Count empty',
+  countNotEmpty: 'Count not empty',
+  countUnique: 'Count unique',
+  sum: 'Sum',
+  average: 'Average',
+  min: 'Min',
+  max: 'Max',
+  earliest: 'Earliest date',
+  latest: 'Latest date',
+  range: 'Date range',
+  percentChecked: 'Percent checked',
+  uniqueValues: 'Unique values',
+  distribution: 'Distribution',
+};
+
+/** The aggregations a rollup column can use on values of a column type */
+export function getAggregationsForType(columnType: string): AggregationType[] {
+  switch (columnType) {
+    case 'number':
+      return ['count', 'sum', 'average', 'min', 'max', 'uniqueValues'];
+    case 'date':
+      return ['count', 'earliest', 'latest'];
+    case 'checkbox':
+      return ['count', 'percentChecked'];
+    default:
+      return ['count', 'uniqueValues'];
+  }
+}
+
+/** The calculations the summary row offers for a column type */
+export function getSummaryAggregationsForType(columnType: string): AggregationType[] {
+  const counts: AggregationType[] = ['count', 'countEmpty', 'countNotEmpty', 'countUnique'];
+  switch (columnType) {
+    case 'number':
+      return counts.concat(['sum', 'average', 'min', 'max']);
+    case 'date':
+      return counts.concat(['earliest', 'latest', 'range']);
+    case 'checkbox':
+      return ['count', 'percentChecked'];
+    case 'dropdown':
+    case 'multiselect':
+      return counts.concat(['distribution']);
+    default:
+      return counts;
+  }
+}
+
+/** The type of value an aggregation produces, for display, sorting and filtering */
+export function getAggregationResultType(aggregation: AggregationType): 'number' | 'date' | 'text' {
+  switch (aggregation) {
+    case 'earliest':
+    case 'latest':
+      return 'date';
+    case 'uniqueValues':
+    case 'distribution':
+      return 'text';
+    default:
+      return 'number';
+  }
+}
+
+/**
+ * Aggregates stored cell values (number strings, timestamps, "true"/"false", comma-separated lists).
+ * @returns The result in the same stored format: a number string, a timestamp, or a comma-separated list
+ *          ("value: count" pairs, most common first, for distribution);
+ *          '' when there is nothing to aggregate (e.g. the average of no numbers).
+ */
+export function aggregateValues(values: string[], aggregation: AggregationType): string {
+  switch (aggregation) {
+    case 'count':
+      return values.length.toString();
+    case 'countEmpty':
+      return values.filter(value => value.trim() === '').length.toString();
+    case 'countNotEmpty':
+      return values.filter(value => value.trim() !== '').length.toString();
+    case 'countUnique': {
+      const unique = new Set(values.map(value => value.trim()).filter(value => value !== ''));
+      return unique.size.toString();
+    }
+    case 'sum':
+    case 'average':
+    case 'min':
+    case 'max': {
+      const numbers = values.map(parseNumber).filter((num): num is number => num !== null);
+      if (numbers.length === 0) return aggregation === 'sum' ? '0' : '';
+      const total = numbers.reduce((sum, num) => sum + num, 0);
+      if (aggregation === 'sum') return roundResult(total);
+      if (aggregation === 'average') return roundResult(total / numbers.length);
+      return (aggregation === 'min' ? Math.min(...numbers) : Math.max(...numbers)).toString();
+    }
+    case 'earliest':
+    case 'latest': {
+      const timestamps = values.map(value => parseInt(value, 10)).filter(timestamp => !isNaN(timestamp));
+      if (timestamps.length === 0) return '';
+      return (aggregation === 'earliest' ? Math.min(...timestamps) : Math.max(...timestamps)).toString();
+    }
+    case 'range': {
+      const timestamps = values.map(value => parseInt(value, 10)).filter(timestamp => !isNaN(timestamp));
+      if (timestamps.length === 0) return '';
+      return roundResult((Math.max(...timestamps) - Math.min(...timestamps)) / DAY_MS);
+    }
+    case 'percentChecked': {
+      if (values.length === 0) return '';
+      const checked = values.filter(value => value === 'true').length;
+      return roundResult(checked / values.length * 100);
+    }
+    case 'uniqueValues': {
+      const unique: string[] = [];
+      values.forEach(value => value.split(',').forEach(item => {
+        const trimmed = item.trim();
+        if (trimmed && !unique.includes(trimmed)) unique.push(trimmed);
+      }));
+      return unique.join(',');
+    }
+    case 'distribution': {
+      const counts = new Map<string, number>();
+      values.forEach(value => value.split(',').forEach(item => {
+        const trimmed = item.trim();
+        if (trimmed) counts.set(trimmed, (counts.get(trimmed) || 0) + 1);
+      }));
+      const entries: [string, number][] = [];
+      counts.forEach((count, item) => entries.push([item, count]));
+      return entries
+        .sort((a, b) => b[1] - a[1])
+        .map(([item, count]) => `${item}: ${count}`)
+        .join(', ');
+    }
+  }
+}
+
+// Hides floating point noise such as 0.1 + 0.2 = 0.30000000000000004
+function roundResult(value: number): string {
+  return parseFloat(value.toPrecision(12)).toString();
+}
@@ -0,0 +1,120 @@
+// src/computedColumns.ts
+
+import { CellData, ColumnDef, RelationTypeOptions, RollupTypeOptions, TableData } from './types';
+import { aggregateValues, getAggregationResultType } from './aggregations';
+import { computeFormula, formulaValueToCellString } from './formula/FormulaEngine';
+import { RelatedTables, splitRowIds } from './relations/RelatedTables';
+import { getRowId } from './rowIds';
+
+// Rollups of rollups are followed this many tables deep (guards against cycles between tables)
+const MAX_ROLLUP_DEPTH = 3;
+
+/** The outcome of computing one rollup cell */
+export interface RollupResult {
+  value: string; // In the stored format of its result type (number string, timestamp, comma-separated list)
+  displayColumn: ColumnDef; // A column of the result type whose renderer formats the value
+  pendingTable?: string; // Path of the related table when it has not been loaded yet
+}
+
+/** Formula and rollup columns show computed values instead of stored ones */
+export function isComputedColumn(column: ColumnDef): boolean {
+  return column.type === 'formula' || column.type === 'rollup';
+}
+
+/**
+ * Aggregates a column of the rows linked through the rollup's relation column.
+ * Returns an empty value (with pendingTable set) until the related table is loaded.
+ */
+export function computeRollup(
+  data: TableData,
+  row: CellData[],
+  column: ColumnDef,
+  relatedTables: RelatedTables,
+  depth: number = 0
+): RollupResult {
+  const typeOpts = (column.typeOptions || {}) as RollupTypeOptions;
+  const aggregation = typeOpts.aggregation || 'count';
+  const relationColumn = data.columns.find(col => col.id === typeOpts.relationColumnId && col.type === 'relation');
+  const targetPath = (relationColumn?.typeOptions as RelationTypeOptions | undefined)?.targetTable;
+  const targetData = targetPath ? relatedTables.get(targetPath) : null;
+  const targetColumn = targetData?.columns.find(col => col.id === typeOpts.targetColumnId);
+  const displayColumn = getRollupDisplayColumn(column, targetColumn);
+
+  if (!relationColumn || !targetPath) return { value: '', displayColumn: displayColumn };
+  if (!targetData) return { value: '', displayColumn: displayColumn, pendingTable: targetPath };
+
+  const linkedRows = splitRowIds(row.find(cell => cell.column === relationColumn.id)?.value || '')
+    .map(rowId => targetData.rows.find(targetRow => getRowId(targetRow) === rowId))
+    .filter((targetRow): targetRow is CellData[] => !!targetRow);
+
+  // Count only needs the rows; everything else needs the chosen column's values
+  if (aggregation !== 'count' && (!targetColumn || depth >= MAX_ROLLUP_DEPTH)) {
+    return { value: '', displayColumn: displayColumn };
+  }
+  const values = aggregation === 'count'
+    ? linkedRows.map(() => '')
+    : linkedRows.map(targetRow => getCellValue(targetData, targetRow, targetColumn!, relatedTables, depth + 1));
+  return { value: aggregateValues(values, aggregation), displayColumn: displayColumn };
+}
+
+/** A stand-in column whose renderer displays a rollup result (e.g. sums in the target column's number format) */
+function getRollupDisplayColumn(column: ColumnDef, targetColumn: ColumnDef | undefined): ColumnDef {
+  const aggregation = (column.typeOptions as RollupTypeOptions | undefined)?.aggregation || 'count';
+  const base = { id: column.id, name: column.name };
+  switch (aggregation) {
+    case 'percentChecked':
+      return { ...base, type: 'number', typeOptions: { numberFormat: 'percent', decimals: 0 } };
+    case 'sum':
+    case 'average':
+    case 'min':
+    case 'max':
+      return { ...base, type: 'number', typeOptions: targetColumn?.type === 'number' ? targetColumn.typeOptions : {} };
+    case 'earliest':
+    case 'latest':
+      return { ...base, type: 'date', typeOptions: targetColumn?.type === 'date' ? targetColumn.typeOptions : {} };
+    case 'uniqueValues':
+      // Keeps option colours when rolling up a dropdown/multi-select column
+      return { ...base, type: 'multiselect', typeOptions: targetColumn?.typeOptions || {} };
+    default:
+      return { ...base, type: 'number', typeOptions: {} };
+  }
+}
+
+/** The value of any column in a row as a stored-format string, computing formula and rollup columns */
+export function getCellValue(
+  data: TableData,
+  row: CellData[],
+  column: ColumnDef,
+  relatedTables: RelatedTables,
+  depth: number = 0
+): string {
+  switch (column.type) {
+    case 'formula':
+      return formulaValueToCellString(computeFormula(data, row, column).value);
+    case 'rollup':
+      return computeRollup(data, row, column, relatedTables, depth).value;
+    default:
+      return row.find(cell => cell.column === column.id)?.value || '';
+  }
+}
+
+/**
+ * The type a column's values behave as for sorting and filtering.
+ * Formula columns take the type of the first non-empty computed value (number, date, checkbox or text);
+ * rollup columns take the type their aggregation produces.
+ */
+export function getEffectiveColumnType(data: TableData, column: ColumnDef): string {
+  if (column.type === 'rollup') {
+    return getAggregationResultType((column.typeOptions as RollupTypeOptions | undefined)?.aggregation || 'count');
+  }
+  if (column.type !== 'formula') return column.type;
+  for (const row of data.rows) {
+    const { value } = computeFormula(data, row, column);
+    if (value === null || value === '') continue;
+    if (typeof value === 'number') return 'number';
+    if (typeof value === 'boolean') return 'checkbox';
+    if (value instanceof Date) return 'date';
+    return 'text';
+  }
+  return 'text';
+}
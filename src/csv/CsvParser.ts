@@ -0,0 +1,196 @@
+// src/csv/CsvParser.ts
+
+// Delimiters tried when none is given, in order of preference on a tie
+const CANDIDATE_DELIMITERS = [',', '\t', ';', '|'];
+
+// How many lines detectDelimiter() looks at
+const DETECTION_SAMPLE_LINES = 20;
+// How much text detectDelimiter() reads for those lines
+const DETECTION_SAMPLE_CHARS = 64 * 1024;
+
+/**
+ * Incremental RFC 4180 parser for CSV and other delimiter-separated text (TSV, semicolon-separated...).
+ * Text can be fed in chunks of any size; quoted fields may contain delimiters, line breaks and
+ * doubled quotes (""). Accepts \n, \r\n and \r line endings and ignores a leading byte order mark.
+ *
+ * Records are passed to onRecord as soon as they are complete, along with the 1-based line they start on.
+ */
+export class CsvParser {
+  private field = '';
+  private record: string[] = [];
+  private inQuotes = false;
+  private quotePending = false; // Read a quote inside a quoted field: either "" (escaped) or the closing quote
+  private quoteClosed = false; // The current field was quoted and its closing quote has been read
+  private previousChar = '';
+  private atStart = true; // Nothing read yet (for the byte order mark)
+  private line = 1; // Current line in the input
+  private recordLine = 1; // Line the current record started on
+  /** True if the input ended inside a quoted field (the rest of the text was kept as that field) */
+  public unterminatedQuote = false;
+
+  constructor(
+    private delimiter: string,
+    private onRecord: (fields: string[], line: number) => void
+  ) {}
+
+  /** Parses the next piece of the text */
+  public write(chunk: string) {
+    let i = 0;
+    if (this.atStart && chunk.length > 0) {
+      this.atStart = false;
+      if (chunk.charCodeAt(0) === 0xfeff) i = 1;
+    }
+
+    for (; i < chunk.length; i++) {
+      const char = chunk[i];
+      const previousChar = this.previousChar;
+      this.previousChar = char;
+
+      if (this.quotePending) {
+        this.quotePending = false;
+        if (char === '"') { this.field += '"'; continue; } // Escaped quote
+        this.inQuotes = false;
+        this.quoteClosed = true;
+        // Fall through: this character follows the closing quote
+      }
+
+      if (this.inQuotes) {
+        if (char === '"') {
+          this.quotePending = true;
+        } else {
+          if (char === '\r' || (char === '\n' && previousChar !== '\r')) this.line++;
+          this.field += char;
+        }
+        continue;
+      }
+
+      if (char === '\n' && previousChar === '\r') {
+        continue; // Second half of \r\n; the record already ended at \r
+      } else if (char === '\n' || char === '\r') {
+        this.endRecord();
+        this.line++;
+        this.recordLine = this.line;
+      } else if (char === this.delimiter) {
+        this.endField();
+      } else if (char === '"' && this.field === '' && !this.quoteClosed) {
+        this.inQuotes = true;
+      } else {
+        // Text after a closing quote is kept as-is, like spreadsheet apps do
+        this.field += char;
+      }
+    }
+  }
+
+  /** Finishes parsing, emitting the last record if the text didn't end with a line break */
+  public end() {
+    if (this.quotePending) {
+      this.quotePending = false;
+      this.inQuotes = false;
+      this.quoteClosed = true;
+    }
+    if (this.inQuotes) {
+      this.unterminatedQuote = true;
+      this.inQuotes = false;
+    }
+    if (this.field !== '' || this.record.length > 0 || this.quoteClosed) this.endRecord();
+  }
+
+  private endField() {
+    this.record.push(this.field);
+    this.field = '';
+    this.quoteClosed = false;
+  }
+
+  private endRecord() {
+    this.endField();
+    const record = this.record;
+    this.record = [];
+    this.onRecord(record, this.recordLine);
+  }
+}
+
+/** A parsed record and the line of the file it starts on */
+export interface CsvRecord {
+  fields: string[];
+  line: number;
+}
+
+export interface CsvParseResult {
+  records: CsvRecord[];
+  delimiter: string;
+  unterminatedQuote: boolean;
+}
+
+/**
+ * Guesses the delimiter from the first lines: the candidate that appears the same (non-zero)
+ * number of times on the most lines, outside quoted fields.
+ */
+export function detectDelimiter(text: string): string {
+  let best = CANDIDATE_DELIMITERS[0];
+  let bestScore = 0;
+  CANDIDATE_DELIMITERS.forEach(delimiter => {
+    const counts: number[] = [];
+    const parser = new CsvParser(delimiter, fields => {
+      if (counts.length < DETECTION_SAMPLE_LINES) counts.push(fields.length - 1);
+    });
+    // Enough text for the sample; a record cut off at the end only costs one line of the sample
+    parser.write(text.substring(0, DETECTION_SAMPLE_CHARS));
+    parser.end();
+
+    // Most lines sharing one non-zero count wins; a higher count breaks ties
+    const frequency = new Map<number, number>();
+    counts.filter(count => count > 0).forEach(count => frequency.set(count, (frequency.get(count) || 0) + 1));
+    frequency.forEach((lines, count) => {
+      const score = lines * 1000 + count;
+      if (score > bestScore) { bestScore = score; best = delimiter; }
+    });
+  });
+  return best;
+}
+
+/**
+ * Parses delimiter-separated text into records.
+ * @param delimiter The field separator; detected from the text if omitted
+ */
+export function parseCsv(text: string, delimiter: string = detectDelimiter(text)): CsvParseResult {
+  const records: CsvRecord[] = [];
+  const parser = new CsvParser(delimiter, (fields, line) => records.push({ fields: fields, line: line }));
+  parser.write(text);
+  parser.end();
+  return { records: records, delimiter: delimiter, unterminatedQuote: parser.unterminatedQuote };
+}
+
+/**
+ * Parses a delimiter-separated file as it is read, chunk by chunk, so the file's full text is never held in memory.
+ * @param delimiter The field separator; detected from the start of the file if omitted
+ */
+export async function parseCsvFile(file: Blob, delimiter?: string): Promise<CsvParseResult> {
+  const records: CsvRecord[] = [];
+  const onRecord = (fields: string[], line: number) => { records.push({ fields: fields, line: line }); };
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder(); // UTF-8; keeps characters split across chunks intact
+  let parser = delimiter ? new CsvParser(delimiter, onRecord) : null;
+  let sample = ''; // Text read before the delimiter is known
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    const text = done ? decoder.decode() : decoder.decode(value, { stream: true });
+    if (parser) {
+      parser.write(text);
+    } else {
+      sample += text;
+      // Detect once there is enough text for the sample (or the whole file is shorter), then parse what was read
+      if (done || sample.length >= DETECTION_SAMPLE_CHARS) {
+        delimiter = detectDelimiter(sample);
+        parser = new CsvParser(delimiter, onRecord);
+        parser.write(sample);
+        sample = '';
+      }
+    }
+    if (done) break;
+  }
+
+  const finished = parser as CsvParser; // Created at the latest when the stream ended
+  finished.end();
+  return { records: records, delimiter: delimiter as string, unterminatedQuote: finished.unterminatedQuote };
+}
@@ -0,0 +1,64 @@
+// src/csv/csvExport.ts
+
+import { CellData, ColumnDef } from '../types';
+
+/** Which rows and columns are exported */
+export type ExportScope = 'table' | 'view'; // Everything, or the active view's rows (filtered, sorted) and visible columns
+
+/** Stored values (timestamps, "true"/"false", link paths...) or what the cells show */
+export type ExportValues = 'raw' | 'display';
+
+export interface ExportOptions {
+  scope: ExportScope;
+  values: ExportValues;
+  delimiter: ',' | '\t';
+}
+
+/** The rows and columns to export, and how to read a cell's value in each form */
+export interface ExportSource {
+  columns: ColumnDef[];
+  rows: CellData[][];
+  getRawValue: (row: CellData[], column: ColumnDef) => string; // Includes computed values of formulas and rollups
+  getDisplayValue: (row: CellData[], column: ColumnDef) => string;
+}
+
+// Separates the items of multi-select cells in display values
+const DISPLAY_LIST_SEPARATOR = '; ';
+
+/** Converts the source to delimiter-separated text, with a header row of column names */
+export function buildCsv(source: ExportSource, options: ExportOptions): string {
+  const records: string[][] = [source.columns.map(col => col.name)];
+  source.rows.forEach(row => {
+    records.push(source.columns.map(col => options.values === 'raw'
+      ? source.getRawValue(row, col)
+      : getExportDisplayValue(source, row, col)));
+  });
+  return formatCsv(records, options.delimiter);
+}
+
+/** The displayed value, adjusted where the cell's own text doesn't suit a spreadsheet */
+function getExportDisplayValue(source: ExportSource, row: CellData[], column: ColumnDef): string {
+  switch (column.type) {
+    case 'checkbox':
+      return source.getRawValue(row, column) === 'true' ? 'true' : 'false'; // Checkboxes have no text
+    case 'multiselect':
+      return source.getRawValue(row, column).split(',').map(item => item.trim()).filter(item => item !== '')
+        .join(DISPLAY_LIST_SEPARATOR);
+    default:
+      return source.getDisplayValue(row, column);
+  }
+}
+
+/**
+ * Writes records as RFC 4180 text: fields containing the delimiter, quotes or line breaks are quoted
+ * (with quotes doubled), and records end with \r\n.
+ */
+export function formatCsv(records: string[][], delimiter: string): string {
+  return records.map(fields => fields.map(field => quoteField(field, delimiter)).join(delimiter)).join('\r\n') + '\r\n';
+}
+
+function quoteField(field: string, delimiter: string): string {
+  const needsQuotes = field.includes(delimiter) || /["\r\n]/.test(field)
+    || field !== field.trim(); // Spreadsheet apps may trim unquoted fields
+  return needsQuotes ? `"${field.replace(/"/g, '""')}"` : field;
+}
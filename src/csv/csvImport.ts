@@ -0,0 +1,346 @@
+// src/csv/csvImport.ts
+
+import { CellData, ColumnDef, DropdownOption, SelectTypeOptions, TableData, createDefaultView } from '../types';
+import { createRowId, ROW_ID_COLUMN } from '../rowIds';
+import { parseNumber } from '../renderers/NumberRenderer';
+import { CsvParseResult } from './CsvParser';
+
+// Column types a CSV column can be imported as
+export type ImportColumnType = 'text' | 'number' | 'checkbox' | 'date' | 'dropdown' | 'multiselect' | 'notelink';
+
+export const IMPORT_COLUMN_TYPES: { value: ImportColumnType; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'checkbox', label: 'Checkbox' },
+  { value: 'date', label: 'Date' },
+  { value: 'dropdown', label: 'Dropdown' },
+  { value: 'multiselect', label: 'Multi-select' },
+  { value: 'notelink', label: 'Note link' },
+];
+
+/** How one CSV column is imported (edited in the import modal) */
+export interface ImportColumn {
+  sourceIndex: number; // Position of the field in each record
+  name: string;
+  type: ImportColumnType | 'skip'; // 'skip' leaves the column out
+}
+
+/** A record that was not imported */
+export interface SkippedRow {
+  line: number; // Line of the file the record starts on
+  reason: string;
+}
+
+/** A parsed file split into a header and data rows, ready for mapping */
+export interface CsvImportData {
+  headers: string[]; // Column names from the first record (blank and duplicate names made unique)
+  rows: string[][]; // Data records, padded to the header's length
+  skipped: SkippedRow[];
+  warnings: string[]; // Problems that didn't cost a row
+  delimiter: string;
+}
+
+// Dropdown/multi-select are only suggested for columns with at most this many distinct values
+const MAX_DETECTED_OPTIONS = 20;
+
+const CHECKED_WORDS = ['true', 'yes', 'y', 'x', '✓', '✔', 'checked', 'done', '[x]'];
+const UNCHECKED_WORDS = ['false', 'no', 'n', 'unchecked', '', '[ ]', '[]'];
+
+// A value that is just one [[wikilink]], optionally with an alias ([[Note|shown text]])
+const WIKILINK = /^\[\[([^\[\]|]+)(\|[^\[\]]*)?\]\]$/;
+
+// Separators between the items of a multi-select value
+const MULTISELECT_SEPARATOR = /[;,]/;
+
+/**
+ * Uses the first non-empty record as the header and checks every other record against it.
+ * Short records are padded with empty fields; records with extra non-empty fields and blank lines are skipped.
+ */
+export function prepareCsvImport(result: CsvParseResult): CsvImportData {
+  const skipped: SkippedRow[] = [];
+  const warnings: string[] = [];
+  const isBlank = (fields: string[]) => fields.every(field => field.trim() === '');
+
+  const headerIndex = result.records.findIndex(record => !isBlank(record.fields));
+  const headerFields = headerIndex === -1 ? [] : result.records[headerIndex].fields;
+  const headers = makeUniqueNames(headerFields.map((name, index) => name.trim() || `Column ${index + 1}`));
+
+  const rows: string[][] = [];
+  result.records.slice(headerIndex + 1).forEach(record => {
+    const fields = record.fields;
+    if (isBlank(fields)) {
+      skipped.push({ line: record.line, reason: 'empty line' });
+      return;
+    }
+    if (fields.length > headers.length) {
+      // Trailing delimiters (empty extra fields) are harmless; extra values would be lost
+      if (!isBlank(fields.slice(headers.length))) {
+        skipped.push({ line: record.line, reason: `has ${fields.length} fields, expected ${headers.length}` });
+        return;
+      }
+    }
+    const row = fields.slice(0, headers.length);
+    while (row.length < headers.length) row.push('');
+    rows.push(row);
+  });
+
+  if (result.unterminatedQuote) {
+    warnings.push('The file ends inside a quoted field, so the last row may be incomplete.');
+  }
+  return { headers: headers, rows: rows, skipped: skipped, warnings: warnings, delimiter: result.delimiter };
+}
+
+/** Appends " 2", " 3"... to names that are already taken */
+function makeUniqueNames(names: string[]): string[] {
+  const used: string[] = [];
+  return names.map(name => {
+    let unique = name;
+    for (let n = 2; used.includes(unique); n++) unique = `${name} ${n}`;
+    used.push(unique);
+    return unique;
+  });
+}
+
+// --- Type Detection ---
+
+/** Suggests a column type from a column's values */
+export function detectColumnType(values: string[]): ImportColumnType {
+  const filled = values.map(value => value.trim()).filter(value => value !== '');
+  if (filled.length === 0) return 'text';
+
+  if (filled.every(value => parseStrictNumber(value) !== null)) return 'number';
+  if (filled.every(value => CHECKED_WORDS.includes(value.toLowerCase()) || UNCHECKED_WORDS.includes(value.toLowerCase()))) {
+    return 'checkbox';
+  }
+  if (filled.every(value => parseDate(value) !== null)) return 'date';
+  if (filled.every(value => WIKILINK.test(value))) return 'notelink';
+
+  // Few distinct values that repeat: options (lists of them when values contain separators)
+  if (filled.some(value => MULTISELECT_SEPARATOR.test(value))) {
+    const items = filled.reduce((all: string[], value) => all.concat(splitItems(value)), []);
+    const distinctItems = unique(items);
+    if (distinctItems.length <= MAX_DETECTED_OPTIONS && distinctItems.length < items.length) return 'multiselect';
+  }
+  const distinct = unique(filled);
+  if (distinct.length <= MAX_DETECTED_OPTIONS && distinct.length < filled.length) return 'dropdown';
+  return 'text';
+}
+
+/** Parses a number written as a whole value (1,234.5 / -3 / $20 / 15%), unlike parseNumber which ignores stray text */
+function parseStrictNumber(value: string): number | null {
+  if (!/^[-+]?[$€£¥]?\s?(\d{1,3}(,\d{3})+|\d+)?(\.\d+)?([eE][-+]?\d+)?%?$/.test(value) || !/\d/.test(value)) return null;
+  return parseNumber(value);
+}
+
+/** Parses YYYY-MM-DD or YYYY/MM/DD, optionally followed by a time, as a local date */
+function parseDate(value: string): Date | null {
+  const match = value.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/);
+  if (!match) return null;
+  const date = new Date(
+    parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10),
+    match[4] ? parseInt(match[4], 10) : 0, match[5] ? parseInt(match[5], 10) : 0, match[6] ? parseInt(match[6], 10) : 0
+  );
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function splitItems(value: string): string[] {
+  return value.split(MULTISELECT_SEPARATOR).map(item => item.trim()).filter(item => item !== '');
+}
+
+function unique(values: string[]): string[] {
+  const result: string[] = [];
+  values.forEach(value => { if (!result.includes(value)) result.push(value); });
+  return result;
+}
+
+// --- Conversion ---
+
+/**
+ * Converts a CSV field to the stored cell format of a column type
+ * (number strings, "true"/"false", timestamps, comma-separated option lists, link paths).
+ * Values that can't be converted (e.g. "soon" in a date column) become empty.
+ */
+export function convertValue(value: string, type: ImportColumnType): string {
+  const trimmed = value.trim();
+  switch (type) {
+    case 'number': {
+      const num = parseNumber(trimmed);
+      return num === null ? '' : num.toString();
+    }
+    case 'checkbox':
+      return CHECKED_WORDS.includes(trimmed.toLowerCase()) || trimmed === '1' ? 'true' : 'false';
+    case 'date': {
+      const date = parseDate(trimmed) || (trimmed && !isNaN(Date.parse(trimmed)) ? new Date(Date.parse(trimmed)) : null);
+      return date ? date.getTime().toString() : '';
+    }
+    case 'multiselect':
+      return splitItems(trimmed).join(',');
+    case 'dropdown':
+      return trimmed;
+    case 'notelink': {
+      // Links are stored as the link path; plain text is kept as the path
+      const match = trimmed.match(WIKILINK);
+      return match ? match[1].trim() : trimmed;
+    }
+    default:
+      return value; // Text keeps its spacing and line breaks
+  }
+}
+
+/** Option lists for dropdown/multi-select columns: the distinct converted values, in order of appearance */
+export function collectOptions(values: string[], type: ImportColumnType): DropdownOption[] {
+  const items = type === 'multiselect'
+    ? values.reduce((all: string[], value) => all.concat(value.split(',')), [])
+    : values;
+  return unique(items.filter(item => item !== '')).map(item => ({ value: item }));
+}
+
+/** Creates the data for a new table from the parsed file and the chosen column mapping */
+export function buildTableData(importData: CsvImportData, columns: ImportColumn[]): TableData {
+  const imported = columns.filter(col => col.type !== 'skip');
+  const idPrefix = 'col_' + Date.now();
+  const columnDefs: ColumnDef[] = imported.map((col, index) => ({
+    id: `${idPrefix}_${index}`,
+    name: col.name.trim() || `Column ${index + 1}`,
+    type: col.type,
+    width: 150,
+    typeOptions: {}
+  }));
+
+  const rows: CellData[][] = importData.rows.map(fields => {
+    const row: CellData[] = imported.map((col, index) => ({
+      column: columnDefs[index].id,
+      value: convertValue(fields[col.sourceIndex] || '', col.type as ImportColumnType)
+    }));
+    row.push({ column: ROW_ID_COLUMN, value: createRowId() });
+    return row;
+  });
+
+  columnDefs.forEach((columnDef, index) => {
+    if (columnDef.type !== 'dropdown' && columnDef.type !== 'multiselect') return;
+    const values = rows.map(row => row[index].value);
+    columnDef.typeOptions = { options: collectOptions(values, columnDef.type as ImportColumnType) };
+  });
+
+  return { columns: columnDefs, rows: rows, views: [createDefaultView()] };
+}
+
+// --- Importing Into an Existing Table ---
+
+/** Where one CSV column goes when importing into an existing table */
+export interface ColumnMapping {
+  sourceIndex: number; // Position of the field in each record
+  columnId: string | null; // Target column, or null to leave the field out
+}
+
+/** How imported rows are combined with the table's rows */
+export interface MergeOptions {
+  // Rows whose key cell equals an existing row's are updated instead of added; null adds every row
+  keyColumnId: string | null;
+  // When updating a row, empty CSV fields clear its cells; otherwise they leave them as they are
+  overwriteWithBlanks: boolean;
+}
+
+export interface MergeResult {
+  added: number;
+  updated: number;
+}
+
+/**
+ * The import type whose conversion produces a column's stored format, or null for columns that
+ * can't be filled from a CSV (computed columns, and relations which store row IDs)
+ */
+export function getImportTypeForColumn(column: ColumnDef): ImportColumnType | null {
+  switch (column.type) {
+    case 'text':
+    case 'number':
+    case 'checkbox':
+    case 'date':
+    case 'dropdown':
+    case 'multiselect':
+    case 'notelink':
+      return column.type;
+    default:
+      return null;
+  }
+}
+
+/** Maps each CSV column to the importable column with the same name (ignoring case and surrounding spaces) */
+export function matchColumnsByName(headers: string[], columns: ColumnDef[]): ColumnMapping[] {
+  const used: string[] = [];
+  return headers.map((header, index) => {
+    const name = header.trim().toLowerCase();
+    const column = columns.find(col =>
+      getImportTypeForColumn(col) !== null && !used.includes(col.id) && col.name.trim().toLowerCase() === name);
+    if (column) used.push(column.id);
+    return { sourceIndex: index, columnId: column ? column.id : null };
+  });
+}
+
+/**
+ * Adds the parsed rows to the table, converting each field to its column's stored format.
+ * With a key column, a row whose key matches an existing row updates that row's mapped cells instead
+ * (later CSV rows with the same key update the same row); empty fields are skipped unless
+ * options.overwriteWithBlanks is set. Values missing from dropdown and
+ * multi-select columns are added to their options. Mutates data.
+ */
+export function mergeIntoTable(data: TableData, importData: CsvImportData, mappings: ColumnMapping[], options: MergeOptions): MergeResult {
+  const targets = mappings
+    .map(mapping => ({ mapping: mapping, column: data.columns.find(col => col.id === mapping.columnId) }))
+    .filter((target): target is { mapping: ColumnMapping; column: ColumnDef } =>
+      !!target.column && getImportTypeForColumn(target.column) !== null);
+  const keyTarget = targets.find(target => target.column.id === options.keyColumnId);
+
+  // Existing rows by key value (first row wins when several share a key)
+  const rowsByKey = new Map<string, CellData[]>();
+  if (keyTarget) {
+    data.rows.forEach(row => {
+      const key = (row.find(cell => cell.column === keyTarget.column.id)?.value || '').trim();
+      if (key !== '' && !rowsByKey.has(key)) rowsByKey.set(key, row);
+    });
+  }
+
+  const result: MergeResult = { added: 0, updated: 0 };
+  const importedValues: string[][] = targets.map(() => []); // Per target, for adding new options
+  importData.rows.forEach(fields => {
+    const values = targets.map(target =>
+      convertValue(fields[target.mapping.sourceIndex] || '', getImportTypeForColumn(target.column) as ImportColumnType));
+    values.forEach((value, index) => importedValues[index].push(value));
+    const key = keyTarget ? values[targets.indexOf(keyTarget)].trim() : '';
+
+    let row = key !== '' ? rowsByKey.get(key) : undefined;
+    const isUpdate = !!row;
+    if (row) {
+      result.updated++;
+    } else {
+      row = data.columns.map(col => ({ column: col.id, value: col.type === 'checkbox' ? 'false' : '' }));
+      row.push({ column: ROW_ID_COLUMN, value: createRowId() });
+      data.rows.push(row);
+      if (key !== '') rowsByKey.set(key, row);
+      result.added++;
+    }
+
+    const targetRow = row;
+    targets.forEach((target, index) => {
+      // A blank field usually means "no data here", not "clear this cell"
+      if (isUpdate && !options.overwriteWithBlanks && (fields[target.mapping.sourceIndex] || '').trim() === '') return;
+      const cell = targetRow.find(c => c.column === target.column.id);
+      if (cell) cell.value = values[index];
+      else targetRow.push({ column: target.column.id, value: values[index] });
+    });
+  });
+
+  // New option values are appended after the existing options, keeping their styles
+  targets.forEach((target, index) => {
+    const type = getImportTypeForColumn(target.column) as ImportColumnType;
+    if (type !== 'dropdown' && type !== 'multiselect') return;
+    const typeOptions = (target.column.typeOptions || {}) as SelectTypeOptions;
+    const existing = typeOptions.options || [];
+    const added = collectOptions(importedValues[index], type).filter(option => !existing.some(opt => opt.value === option.value));
+    if (added.length === 0) return;
+    typeOptions.options = existing.concat(added);
+    target.column.typeOptions = typeOptions;
+  });
+
+  return result;
+}
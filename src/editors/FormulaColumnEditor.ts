@@ -0,0 +1,71 @@
+// src/editors/FormulaColumnEditor.ts
+import { IColumnEditor } from './IColumnEditor';
+import { ColumnDef, TableData, FormulaTypeOptions } from '../types';
+import { JsonTableView } from '../JsonTableView';
+import { validateFormula } from '../formula/FormulaEngine';
+import { FORMULA_FUNCTION_NAMES } from '../formula/FormulaEvaluator';
+
+export class FormulaColumnEditor implements IColumnEditor {
+
+  public render(
+    container: HTMLElement,
+    column: ColumnDef,
+    data: TableData,
+    view: JsonTableView
+  ): void {
+
+    // --- Ensure typeOptions exists ---
+    column.typeOptions = column.typeOptions || {};
+    const typeOpts = column.typeOptions as FormulaTypeOptions;
+
+    // --- Formula Input ---
+    container.createEl('label', { cls: 'json-table-popup-label', text: 'Formula:' });
+    const textarea = container.createEl('textarea', {
+      cls: 'json-table-formula-input',
+      attr: { rows: '3', spellcheck: 'false', placeholder: 'e.g. prop("Price") * prop("Quantity")' }
+    });
+    textarea.value = typeOpts.formula || '';
+
+    // --- Problems (syntax errors, missing columns) ---
+    const errorList = container.createDiv({ cls: 'json-table-formula-errors' });
+    const updateErrors = () => {
+      errorList.empty();
+      validateFormula(textarea.value, data.columns, column).forEach(problem => {
+        errorList.createDiv({ cls: 'json-table-formula-error', text: problem });
+      });
+    };
+    updateErrors();
+
+    textarea.addEventListener('input', updateErrors);
+    textarea.addEventListener('change', async () => {
+      typeOpts.formula = textarea.value;
+      await view.saveTableData(data);
+      view.getRenderer()?.render();
+    });
+
+    // --- Column References (click to insert prop("Name")) ---
+    container.createEl('label', { cls: 'json-table-popup-label', text: 'Columns:' });
+    const chips = container.createDiv({ cls: 'json-table-formula-chips' });
+    data.columns
+      .filter(col => col.id !== column.id)
+      .forEach(col => {
+        const chip = chips.createEl('button', { cls: 'json-table-formula-chip', text: col.name });
+        chip.addEventListener('mousedown', e => e.preventDefault()); // Keep the textarea's caret
+        chip.addEventListener('click', () => {
+          const reference = `prop("${col.name.replace(/["\\]/g, '\\$&')}")`;
+          const start = textarea.selectionStart ?? textarea.value.length;
+          const end = textarea.selectionEnd ?? start;
+          textarea.setRangeText(reference, start, end, 'end');
+          textarea.focus();
+          updateErrors();
+          textarea.dispatchEvent(new Event('change'));
+        });
+      });
+
+    // --- Function Reference ---
+    container.createDiv({
+      cls: 'json-table-formula-help',
+      text: `Functions: ${FORMULA_FUNCTION_NAMES.join(', ')}. Operators: + - * / % == != < > <= >= && || !`
+    });
+  }
+}
@@ -0,0 +1,97 @@
+// src/editors/NumberColumnEditor.ts
+import { IColumnEditor } from './IColumnEditor';
+import { ColumnDef, TableData, NumberFormat, NumberTypeOptions } from '../types';
+import { JsonTableView } from '../JsonTableView';
+import { formatNumber } from '../renderers/NumberRenderer';
+
+export class NumberColumnEditor implements IColumnEditor {
+
+  // Define the available formats with user-facing labels
+  private availableFormats: { label: string; format: NumberFormat }[] = [
+    { label: 'Number', format: 'plain' },
+    { label: 'Currency', format: 'currency' },
+    { label: 'Percent', format: 'percent' },
+  ];
+
+  public render(
+    container: HTMLElement,
+    column: ColumnDef,
+    data: TableData,
+    view: JsonTableView
+  ): void {
+
+    // --- Ensure typeOptions exists ---
+    column.typeOptions = column.typeOptions || {};
+    const typeOpts = column.typeOptions as NumberTypeOptions;
+
+    // Saves the options and re-renders the table so cells pick up the new format
+    const saveAndRerender = async () => {
+      updatePreview();
+      await view.saveTableData(data);
+      view.getRenderer()?.render();
+    };
+
+    // --- Format ---
+    container.createEl('label', { cls: 'json-table-popup-label', text: 'Number Format:' });
+    const formatSelect = container.createEl('select', { cls: 'json-table-popup-select' });
+    this.availableFormats.forEach(formatInfo => {
+      const option = formatSelect.createEl('option', { text: formatInfo.label, value: formatInfo.format });
+      if ((typeOpts.numberFormat || 'plain') === formatInfo.format) option.selected = true;
+    });
+
+    // --- Currency Symbol (only for currency) ---
+    const symbolInput = container.createEl('input', {
+      type: 'text',
+      cls: 'json-table-edit-input',
+      value: typeOpts.currencySymbol ?? '$',
+      placeholder: 'Currency symbol'
+    });
+    symbolInput.toggleClass('is-hidden', typeOpts.numberFormat !== 'currency');
+
+    formatSelect.addEventListener('change', async () => {
+      typeOpts.numberFormat = formatSelect.value as NumberFormat;
+      symbolInput.toggleClass('is-hidden', typeOpts.numberFormat !== 'currency');
+      await saveAndRerender();
+    });
+    symbolInput.addEventListener('change', async () => {
+      typeOpts.currencySymbol = symbolInput.value.trim();
+      await saveAndRerender();
+    });
+
+    // --- Decimal Places ---
+    container.createEl('label', { cls: 'json-table-popup-label', text: 'Decimal Places:' });
+    const decimalsSelect = container.createEl('select', { cls: 'json-table-popup-select' });
+    const autoOption = decimalsSelect.createEl('option', { text: 'As entered', value: '' });
+    if (typeOpts.decimals === undefined || typeOpts.decimals === null) autoOption.selected = true;
+    [0, 1, 2, 3, 4].forEach(places => {
+      const option = decimalsSelect.createEl('option', { text: places.toString(), value: places.toString() });
+      if (typeOpts.decimals === places) option.selected = true;
+    });
+    decimalsSelect.addEventListener('change', async () => {
+      if (decimalsSelect.value === '') {
+        delete typeOpts.decimals;
+      } else {
+        typeOpts.decimals = parseInt(decimalsSelect.value, 10);
+      }
+      await saveAndRerender();
+    });
+
+    // --- Thousands Separator ---
+    const settingDiv = container.createDiv({ cls: 'json-table-editor-setting' });
+    const checkboxId = `thousands-separator-${column.id}`;
+    const checkbox = settingDiv.createEl('input', { type: 'checkbox', attr: { id: checkboxId } });
+    checkbox.checked = !!typeOpts.thousandsSeparator;
+    settingDiv.createEl('label', { text: 'Show thousands separator', attr: { for: checkboxId } });
+    checkbox.addEventListener('change', async () => {
+      typeOpts.thousandsSeparator = checkbox.checked;
+      await saveAndRerender();
+    });
+
+    // --- Preview ---
+    const preview = container.createDiv({ cls: 'json-table-number-preview' });
+    const updatePreview = () => {
+      preview.setText(`Preview: ${formatNumber('1234.5', typeOpts)}`);
+    };
+    updatePreview();
+  }
+}
@@ -0,0 +1,77 @@
+// src/editors/RelationColumnEditor.ts
+import { IColumnEditor } from './IColumnEditor';
+import { ColumnDef, TableData, RelationTypeOptions } from '../types';
+import { JsonTableView } from '../JsonTableView';
+import { isTableFile } from '../fileHandlers/tableFiles';
+import { getTableName } from '../relations/RelatedTables';
+
+export class RelationColumnEditor implements IColumnEditor {
+
+  public render(
+    container: HTMLElement,
+    column: ColumnDef,
+    data: TableData,
+    view: JsonTableView
+  ): void {
+    container.empty(); // Re-rendered when the target table changes
+
+    // --- Ensure typeOptions exists ---
+    column.typeOptions = column.typeOptions || {};
+    const typeOpts = column.typeOptions as RelationTypeOptions;
+
+    // --- Target Table ---
+    container.createEl('label', { cls: 'json-table-popup-label', text: 'Related Table:' });
+    const tableSelect = container.createEl('select', { cls: 'json-table-popup-select' });
+    tableSelect.createEl('option', { text: 'Choose a table…', value: '' });
+    view.app.vault.getFiles()
+      .filter(isTableFile)
+      .sort((a, b) => a.path.localeCompare(b.path))
+      .forEach(file => {
+        const option = tableSelect.createEl('option', { text: file.path.replace(/\.(table\.json|table\.md)$/, ''), value: file.path });
+        if (file.path === typeOpts.targetTable) option.selected = true;
+      });
+    container.createDiv({
+      cls: 'json-table-modal-hint',
+      text: 'Cells show the first column of each linked row. Changing the table clears existing links.'
+    });
+
+    tableSelect.addEventListener('change', async () => {
+      // Row IDs only mean something in the table they came from
+      await view.relatedTables.unlinkReciprocal(column);
+      data.rows.forEach(row => {
+        const cell = row.find(c => c.column === column.id);
+        if (cell) cell.value = '';
+      });
+      typeOpts.targetTable = tableSelect.value || undefined;
+      await view.saveTableData(data);
+      view.getRenderer()?.render();
+      this.render(container, column, data, view);
+    });
+
+    if (!typeOpts.targetTable) return;
+
+    // --- Reciprocal Column ---
+    const settingDiv = container.createDiv({ cls: 'json-table-editor-setting' });
+    const checkboxId = `relation-reciprocal-${column.id}`;
+    const checkbox = settingDiv.createEl('input', { type: 'checkbox', attr: { id: checkboxId } });
+    checkbox.checked = !!typeOpts.reciprocalColumnId;
+    settingDiv.createEl('label', {
+      text: `Show links on ${getTableName(typeOpts.targetTable)} too`,
+      attr: { for: checkboxId }
+    });
+
+    checkbox.addEventListener('change', async () => {
+      checkbox.disabled = true;
+      const sourcePath = view.getFilePath();
+      if (checkbox.checked && sourcePath) {
+        // Adds a relation column to the other table, kept in sync with this one
+        checkbox.checked = await view.relatedTables.createReciprocalColumn(sourcePath, data, column);
+      } else {
+        // The other table keeps its column; it just stops updating
+        await view.relatedTables.unlinkReciprocal(column);
+      }
+      await view.saveTableData(data);
+      checkbox.disabled = false;
+    });
+  }
+}
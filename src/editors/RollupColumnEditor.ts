@@ -0,0 +1,99 @@
+// src/editors/RollupColumnEditor.ts
+import { IColumnEditor } from './IColumnEditor';
+import { ColumnDef, TableData, AggregationType, RelationTypeOptions, RollupTypeOptions } from '../types';
+import { JsonTableView } from '../JsonTableView';
+import { AGGREGATION_LABELS, getAggregationsForType } from '../aggregations';
+import { getEffectiveColumnType } from '../computedColumns';
+
+export class RollupColumnEditor implements IColumnEditor {
+
+  public render(
+    container: HTMLElement,
+    column: ColumnDef,
+    data: TableData,
+    view: JsonTableView
+  ): void {
+    container.empty(); // Re-rendered whenever a choice changes the options below it
+
+    // --- Ensure typeOptions exists ---
+    column.typeOptions = column.typeOptions || {};
+    const typeOpts = column.typeOptions as RollupTypeOptions;
+
+    const saveAndRerender = async () => {
+      await view.saveTableData(data);
+      view.getRenderer()?.render();
+      this.render(container, column, data, view);
+    };
+
+    // --- Relation ---
+    const relationColumns = data.columns.filter(col => col.type === 'relation');
+    if (relationColumns.length === 0) {
+      container.createDiv({ cls: 'json-table-modal-hint', text: 'Add a relation column first; a rollup summarises the rows it links to.' });
+      return;
+    }
+    container.createEl('label', { cls: 'json-table-popup-label', text: 'Relation:' });
+    const relationSelect = container.createEl('select', { cls: 'json-table-popup-select' });
+    relationSelect.createEl('option', { text: 'Choose a relation…', value: '' });
+    relationColumns.forEach(col => {
+      const option = relationSelect.createEl('option', { text: col.name, value: col.id });
+      if (col.id === typeOpts.relationColumnId) option.selected = true;
+    });
+    relationSelect.addEventListener('change', async () => {
+      typeOpts.relationColumnId = relationSelect.value || undefined;
+      delete typeOpts.targetColumnId; // Belongs to the previous relation's table
+      await saveAndRerender();
+    });
+
+    const relationColumn = relationColumns.find(col => col.id === typeOpts.relationColumnId);
+    const targetPath = (relationColumn?.typeOptions as RelationTypeOptions | undefined)?.targetTable;
+    if (!relationColumn) return;
+    if (!targetPath) {
+      container.createDiv({ cls: 'json-table-modal-hint', text: `Choose a table for "${relationColumn.name}" first.` });
+      return;
+    }
+
+    const targetData = view.relatedTables.get(targetPath);
+    if (!targetData) {
+      const loadingHint = container.createDiv({ cls: 'json-table-modal-hint', text: 'Loading related table…' });
+      view.relatedTables.load(targetPath).then(loaded => {
+        if (loaded) this.render(container, column, data, view);
+        else loadingHint.setText('Related table not found.');
+      });
+      return;
+    }
+
+    // --- Property (column of the related table) ---
+    container.createEl('label', { cls: 'json-table-popup-label', text: 'Property:' });
+    const propertySelect = container.createEl('select', { cls: 'json-table-popup-select' });
+    propertySelect.createEl('option', { text: 'Rows (count only)', value: '' });
+    targetData.columns.forEach(col => {
+      const option = propertySelect.createEl('option', { text: col.name, value: col.id });
+      if (col.id === typeOpts.targetColumnId) option.selected = true;
+    });
+
+    // --- Calculation (depends on the property's type) ---
+    const targetColumn = targetData.columns.find(col => col.id === typeOpts.targetColumnId);
+    const aggregations: AggregationType[] = targetColumn
+      ? getAggregationsForType(getEffectiveColumnType(targetData, targetColumn))
+      : ['count'];
+    container.createEl('label', { cls: 'json-table-popup-label', text: 'Calculate:' });
+    const aggregationSelect = container.createEl('select', { cls: 'json-table-popup-select' });
+    aggregations.forEach(aggregation => {
+      const option = aggregationSelect.createEl('option', { text: AGGREGATION_LABELS[aggregation], value: aggregation });
+      if (aggregation === (typeOpts.aggregation || 'count')) option.selected = true;
+    });
+
+    propertySelect.addEventListener('change', async () => {
+      typeOpts.targetColumnId = propertySelect.value || undefined;
+      // Keep the calculation if it still applies to the new property's type
+      const newTarget = targetData.columns.find(col => col.id === typeOpts.targetColumnId);
+      const valid = newTarget ? getAggregationsForType(getEffectiveColumnType(targetData, newTarget)) : ['count'];
+      if (!valid.includes(typeOpts.aggregation || 'count')) typeOpts.aggregation = 'count';
+      await saveAndRerender();
+    });
+    aggregationSelect.addEventListener('change', async () => {
+      typeOpts.aggregation = aggregationSelect.value as AggregationType;
+      await saveAndRerender();
+    });
+  }
+}
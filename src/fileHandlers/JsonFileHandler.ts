@@ -1,7 +1,9 @@
 // src/fileHandlers/JsonFileHandler.ts
 import { App, TFile } from 'obsidian';
-import { TableData } from '../types';
+import { TableData, createDefaultView } from '../types';
 import { ITableFileHandler } from './ITableFileHandler';
+import { migrateTableData } from './migrations';
+import { markRowIdsSaved } from '../rowIds';
 
 /**
  * Handles reading and writing table data directly as JSON files (.table.json).
@@ -20,46 +22,22 @@ export class JsonFileHandler implements ITableFileHandler {
       return {
           columns: [],
           rows: [],
-          views: [{ id: 'default_' + Date.now(), name: 'Default', sort: [], filter: [] }]
+          views: [createDefaultView()]
       };
     }
 
     try {
       let data: TableData = JSON.parse(content);
 
-      // --- Migration Logic ---
-
-      // 1. Ensure 'views' array and default view exist
-      if (!data.views || !Array.isArray(data.views) || data.views.length === 0) {
-        data.views = [{
-            id: 'default_' + Date.now(),
-            name: 'Default',
-            sort: [],
-            filter: []
-            // hiddenColumns: [] // Add if implementing hidden columns later
-        }];
-        // Ensure the first view has necessary properties if migrating
-        if (!data.views[0].sort) data.views[0].sort = [];
-        if (!data.views[0].filter) data.views[0].filter = [];
-      } else {
-        // Ensure existing first view has sort/filter arrays
-        if (!data.views[0].sort) data.views[0].sort = [];
-        if (!data.views[0].filter) data.views[0].filter = [];
+      // Basic validation
+      if (!data || typeof data !== 'object' || !Array.isArray(data.columns) || !Array.isArray(data.rows)) {
+        throw new Error('Invalid table JSON structure: missing columns or rows.');
       }
 
+      // --- Migration Logic ---
+      // In memory only: reading never writes. Migrated row IDs are stored with the next edit.
+      migrateTableData(data);
 
-      // Ensure all columns have typeOptions initialized
-      data.columns.forEach(col => {
-        if (!col.typeOptions) {
-          col.typeOptions = {};
-        }
-      });
-
-
-      // Basic validation
-      if (!data.columns || !data.rows || !data.views) {
-        throw new Error('Invalid table JSON structure: missing columns, rows, or views.');
-      }
       return data;
 
     } catch (e) {
@@ -71,15 +49,11 @@ export class JsonFileHandler implements ITableFileHandler {
   async save(file: TFile, data: TableData): Promise<void> {
     try {
       // Ensure required structures exist before saving (belt-and-suspenders)
-       if (!data.views || data.views.length === 0) {
-           data.views = [{ id: 'default_'+Date.now(), name: 'Default', sort: [], filter: [] }];
-       }
-       if (!data.views[0].sort) data.views[0].sort = [];
-       if (!data.views[0].filter) data.views[0].filter = [];
-       data.columns.forEach(col => { if (!col.typeOptions) col.typeOptions = {}; });
+      migrateTableData(data);
 
       const jsonString = JSON.stringify(data, null, 2); // Pretty print
       await this.app.vault.modify(file, jsonString);
+      markRowIdsSaved(data);
     } catch (e) {
       console.error(`Error saving JSON file ${file.path}:`, e);
       throw new Error(`Failed to save file: ${(e as Error).message}`);
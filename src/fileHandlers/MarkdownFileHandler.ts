@@ -1,7 +1,10 @@
 // src/fileHandlers/MarkdownFileHandler.ts
 import { App, TFile, parseYaml, stringifyYaml } from 'obsidian';
-import { TableData } from '../types'; // Adjust path if needed
+import { TableData, createDefaultView } from '../types'; // Adjust path if needed
 import { ITableFileHandler } from './ITableFileHandler'; // Adjust path if needed
+import { migrateTableData } from './migrations';
+import { buildMarkdownTable, getSyncedTableSource } from '../markdownTable';
+import { markRowIdsSaved } from '../rowIds';
 
 // Define constants for code block delimiters
 const CODE_BLOCK_START = '```json-table';
@@ -12,6 +15,11 @@ const JSON_CODE_BLOCK_REGEX = new RegExp(
     `${CODE_BLOCK_START}\\s*\\n?([\\s\\S]*?)\\n?\\s*${CODE_BLOCK_END}`
 );
 
+// The synced Markdown table (TableData.syncMarkdownTable) sits between these comments, below the code block
+const SYNCED_TABLE_START = '<!-- json-table-markdown: generated from the data above, edits here are overwritten -->';
+const SYNCED_TABLE_END = '<!-- /json-table-markdown -->';
+const SYNCED_TABLE_REGEX = /\n*<!-- json-table-markdown:[\s\S]*?<!-- \/json-table-markdown -->/;
+
 // Define the frontmatter key for identification
 const FRONTMATTER_PLUGIN_KEY = 'json-table-plugin';
 const FRONTMATTER_LINKS_KEY = 'table-links';
@@ -64,7 +72,7 @@ export class MarkdownFileHandler implements ITableFileHandler {
     if (!jsonContent) {
         console.warn(`Empty json-table code block found in ${file.path}. Returning default structure.`);
         // Return a valid empty table structure
-        return { columns: [], rows: [], views: [{ id: 'default_'+Date.now(), name: 'Default', sort: [], filter: [] }] };
+        return { columns: [], rows: [], views: [createDefaultView()] };
     }
 
     try {
@@ -74,40 +82,9 @@ export class MarkdownFileHandler implements ITableFileHandler {
         throw new Error('Invalid table JSON structure: missing columns or rows.');
       }
 
-      // --- Ensure views array and default view exist (migration for older files) ---
-      if (!data.views || !Array.isArray(data.views) || data.views.length === 0) {
-        data.views = [{
-            id: 'default_' + Date.now(),
-            name: 'Default',
-            sort: [],
-            filter: []
-            // hiddenColumns: [] // Add if needed
-        }];
-      }
-      // Ensure the first view has a sort array
-      if (!data.views[0].sort) {
-          data.views[0].sort = [];
-      }
-      // Ensure typeOptions exists on columns (migration)
-       data.columns.forEach(col => {
-           if (!col.typeOptions) {
-               col.typeOptions = {};
-               // Migrate old direct properties if they exist
-               if ((col as any).dateFormat) {
-                    (col.typeOptions as any).dateFormat = (col as any).dateFormat;
-                    delete (col as any).dateFormat;
-               }
-               if ((col as any).options) {
-                   (col.typeOptions as any).options = (col as any).options;
-                   delete (col as any).options;
-               }
-                if ((col as any).suggestAllFiles !== undefined) { // Check for undefined for boolean
-                   (col.typeOptions as any).suggestAllFiles = (col as any).suggestAllFiles;
-                   delete (col as any).suggestAllFiles;
-               }
-           }
-       });
-       // --- End Migration ---
+      // --- Migration for older files (views, typeOptions, row IDs) ---
+      // In memory only: reading never writes. Migrated row IDs are stored with the next edit.
+      migrateTableData(data);
 
       return data;
     } catch (e) {
@@ -126,15 +103,14 @@ export class MarkdownFileHandler implements ITableFileHandler {
 
       // 2. Extract unique links from 'notelink' columns
       const linkPaths = this.extractLinkPaths(data);
+      const markdownTable = data.syncMarkdownTable ? buildMarkdownTable(getSyncedTableSource(this.app, data)) : null;
 
-      // 3. Read the existing markdown content
-      const existingContent = await this.app.vault.read(file);
-
-      // 4. Update the frontmatter and JSON block within the content
-      let newContent = this.updateMarkdownContent(existingContent, jsonString, linkPaths);
-
-      // 5. Write the updated content back to the file
-      await this.app.vault.modify(file, newContent);
+      // 3. Update the frontmatter and JSON block within the current content.
+      // vault.process reads and writes atomically, so text edited elsewhere in the note isn't lost
+      await this.app.vault.process(file, existingContent =>
+        this.updateMarkdownContent(existingContent, jsonString, linkPaths, markdownTable)
+      );
+      markRowIdsSaved(data);
 
     } catch (e) {
       console.error(`Error saving Markdown file ${file.path}:`, e);
@@ -169,8 +145,11 @@ export class MarkdownFileHandler implements ITableFileHandler {
     return Array.from(linkPaths);
   }
 
-  /** Updates or creates frontmatter and replaces the JSON code block in markdown content */
-  private updateMarkdownContent(existingContent: string, newJsonString: string, linkPaths: string[]): string {
+  /**
+   * Updates or creates frontmatter and replaces the JSON code block in markdown content.
+   * @param markdownTable The synced pipe table to keep below the code block, or null to remove it
+   */
+  private updateMarkdownContent(existingContent: string, newJsonString: string, linkPaths: string[], markdownTable: string | null): string {
     let frontmatter: Record<string, any> = {};
     let body = existingContent;
 
@@ -238,6 +217,18 @@ export class MarkdownFileHandler implements ITableFileHandler {
     }
     // --- End Code Block Replacement ---
 
+    // --- Synced Markdown Table ---
+    newBody = newBody.replace(SYNCED_TABLE_REGEX, '');
+    if (markdownTable) {
+      const syncedTable = `\n\n${SYNCED_TABLE_START}\n\n${markdownTable}\n\n${SYNCED_TABLE_END}`;
+      const blockMatch = newBody.match(JSON_CODE_BLOCK_REGEX);
+      if (blockMatch && blockMatch.index !== undefined) {
+        const blockEnd = blockMatch.index + blockMatch[0].length;
+        newBody = newBody.substring(0, blockEnd) + syncedTable + newBody.substring(blockEnd);
+      }
+    }
+    // --- End Synced Markdown Table ---
+
     // Combine frontmatter and updated body, ensure clean formatting
     return newFrontmatterString + newBody.trim() + '\n'; // Add trailing newline for POSIX compatibility
   }
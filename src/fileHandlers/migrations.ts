@@ -0,0 +1,52 @@
+// src/fileHandlers/migrations.ts
+import { TableData, FilterRule, createDefaultView, createFilterGroup } from '../types';
+import { assignRowIds } from '../rowIds';
+
+/**
+ * Brings table data read from disk up to the current structure.
+ * Shared by all file handlers so both formats migrate identically.
+ * Mutates and returns the same object.
+ */
+export function migrateTableData(data: TableData): TableData {
+  // --- Ensure views array exists and every view is complete ---
+  if (!data.views || !Array.isArray(data.views) || data.views.length === 0) {
+    data.views = [createDefaultView()];
+  }
+  data.views.forEach((view, index) => {
+    if (!view.id) view.id = createDefaultView().id + '_' + index;
+    if (!view.name) view.name = index === 0 ? 'Default' : `View ${index + 1}`;
+    if (!view.sort) view.sort = [];
+    if (!view.filter) view.filter = createFilterGroup();
+    // Flat rule arrays from older versions become a single AND group
+    if (Array.isArray(view.filter)) {
+      const rules = view.filter as FilterRule[];
+      view.filter = createFilterGroup('and');
+      view.filter.items = rules;
+    }
+  });
+
+  // --- Ensure typeOptions exists on columns ---
+  data.columns.forEach(col => {
+    if (!col.typeOptions) {
+      col.typeOptions = {};
+      // Migrate old direct properties if they exist
+      if ((col as any).dateFormat) {
+        (col.typeOptions as any).dateFormat = (col as any).dateFormat;
+        delete (col as any).dateFormat;
+      }
+      if ((col as any).options) {
+        (col.typeOptions as any).options = (col as any).options;
+        delete (col as any).options;
+      }
+      if ((col as any).suggestAllFiles !== undefined) { // Check for undefined for boolean
+        (col.typeOptions as any).suggestAllFiles = (col as any).suggestAllFiles;
+        delete (col as any).suggestAllFiles;
+      }
+    }
+  });
+
+  // --- Ensure every row has a unique, stable ID ---
+  assignRowIds(data);
+
+  return data;
+}
@@ -0,0 +1,20 @@
+// src/fileHandlers/tableFiles.ts
+import { App, TFile } from 'obsidian';
+import { ITableFileHandler } from './ITableFileHandler';
+import { JsonFileHandler } from './JsonFileHandler';
+import { MarkdownFileHandler } from './MarkdownFileHandler';
+
+/** True for files the plugin stores tables in (.table.md or .table.json) */
+export function isTableFile(file: TFile): boolean {
+  return file.name.endsWith('.table.md') || file.name.endsWith('.table.json');
+}
+
+/** Determines the correct file handler based on file extension */
+export function getTableFileHandler(app: App, file: TFile): ITableFileHandler | null {
+  if (file.name.endsWith('.table.md')) {
+    return new MarkdownFileHandler(app);
+  } else if (file.name.endsWith('.table.json')) {
+    return new JsonFileHandler(app);
+  }
+  return null; // Not one of our managed table files
+}
@@ -0,0 +1,160 @@
+// src/formula/FormulaEngine.ts
+
+import { format } from 'date-fns';
+import { CellData, ColumnDef, FormulaTypeOptions, TableData } from '../types';
+import { parseNumber } from '../renderers/NumberRenderer';
+import { FormulaError, FormulaNode, collectPropReferences, parseFormula } from './FormulaParser';
+import { FormulaValue, checkFunctionCalls, evaluateFormula, toText } from './FormulaEvaluator';
+
+/** Shown in a cell whose formula can't be computed */
+export const FORMULA_ERROR_DISPLAY = '#ERROR';
+
+/** The outcome of computing one formula cell */
+export interface FormulaResult {
+  value: FormulaValue;
+  error?: string;
+}
+
+// Parsed formulas by source text, so re-rendering doesn't re-parse every cell
+const parseCache = new Map<string, FormulaNode | FormulaError>();
+
+function getFormulaSource(column: ColumnDef): string {
+  return ((column.typeOptions as FormulaTypeOptions | undefined)?.formula || '').trim();
+}
+
+/** Parses and checks a formula, remembering the result. @throws FormulaError */
+function getParsedFormula(source: string): FormulaNode {
+  let cached = parseCache.get(source);
+  if (cached === undefined) {
+    try {
+      cached = parseFormula(source);
+      checkFunctionCalls(cached);
+    } catch (e) {
+      cached = e instanceof FormulaError ? e : new FormulaError(String(e));
+    }
+    parseCache.set(source, cached);
+  }
+  if (cached instanceof FormulaError) throw cached;
+  return cached;
+}
+
+/** Converts a stored cell value into the value prop() returns, based on the column type */
+function cellToFormulaValue(value: string, column: ColumnDef): FormulaValue {
+  if (value === '') return column.type === 'checkbox' ? false : null;
+  switch (column.type) {
+    case 'number':
+      return parseNumber(value);
+    case 'checkbox':
+      return value === 'true';
+    case 'date': {
+      const timestamp = parseInt(value, 10);
+      return isNaN(timestamp) ? null : new Date(timestamp);
+    }
+    case 'multiselect':
+      return value.split(',').map(item => item.trim()).filter(item => item !== '');
+    default: // text, dropdown, notelink
+      return value;
+  }
+}
+
+/**
+ * Computes a formula column's value for one row.
+ * @param evaluating Formula columns already being computed for this row (guards against cycles)
+ */
+function evaluateColumn(data: TableData, row: CellData[], column: ColumnDef, evaluating: string[]): FormulaValue {
+  const source = getFormulaSource(column);
+  if (!source) return null;
+  const node = getParsedFormula(source);
+
+  return evaluateFormula(node, {
+    getProp: (name: string) => {
+      const referenced = data.columns.find(col => col.name === name);
+      if (!referenced) throw new FormulaError(`Unknown column "${name}"`);
+      if (referenced.type === 'formula') {
+        if (evaluating.includes(referenced.id)) throw new FormulaError(`Circular reference through "${name}"`);
+        return evaluateColumn(data, row, referenced, evaluating.concat(referenced.id));
+      }
+      return cellToFormulaValue(row.find(cell => cell.column === referenced.id)?.value || '', referenced);
+    }
+  });
+}
+
+/** Computes a formula column's value for one row, capturing any error instead of throwing */
+export function computeFormula(data: TableData, row: CellData[], column: ColumnDef): FormulaResult {
+  try {
+    const value = evaluateColumn(data, row, column, [column.id]);
+    if (typeof value === 'number' && !isFinite(value)) return { value: null, error: 'Result is not a finite number' };
+    return { value: value };
+  } catch (e) {
+    return { value: null, error: e instanceof FormulaError ? e.message : String(e) };
+  }
+}
+
+/**
+ * Converts a computed value to the string format cells of the matching type are stored in
+ * (timestamps for dates, "true"/"false", comma-joined lists), so sorting and filtering can treat
+ * a formula like any other column.
+ */
+export function formulaValueToCellString(value: FormulaValue): string {
+  if (value === null) return '';
+  if (value instanceof Date) return value.getTime().toString();
+  if (Array.isArray(value)) return value.join(',');
+  if (typeof value === 'number') return roundForDisplay(value).toString();
+  return String(value);
+}
+
+/** The text a formula cell shows */
+export function formulaValueToDisplay(value: FormulaValue): string {
+  if (value instanceof Date) {
+    const hasTime = value.getHours() !== 0 || value.getMinutes() !== 0;
+    return format(value, hasTime ? 'yyyy/MM/dd HH:mm' : 'yyyy/MM/dd');
+  }
+  if (typeof value === 'number') return roundForDisplay(value).toLocaleString(undefined, { maximumFractionDigits: 10 });
+  return toText(value);
+}
+
+// Hides floating point noise such as 0.1 + 0.2 = 0.30000000000000004
+function roundForDisplay(value: number): number {
+  return parseFloat(value.toPrecision(12));
+}
+
+/**
+ * Checks a formula for syntax errors, unknown functions and references to columns that don't exist.
+ * @returns A list of problems; empty when the formula is valid.
+ */
+export function validateFormula(source: string, columns: ColumnDef[], column: ColumnDef): string[] {
+  if (!source.trim()) return [];
+  let node: FormulaNode;
+  try {
+    node = getParsedFormula(source.trim());
+  } catch (e) {
+    const error = e as FormulaError;
+    return [error.position !== undefined ? `${error.message} (at character ${error.position + 1})` : error.message];
+  }
+
+  const problems: string[] = [];
+  collectPropReferences(node).forEach(name => {
+    const referenced = columns.find(col => col.name === name);
+    if (!referenced) {
+      problems.push(`Column "${name}" does not exist (deleted or renamed?)`);
+    } else if (referenced.id === column.id) {
+      problems.push('A formula cannot refer to its own column');
+    }
+  });
+  return problems;
+}
+
+/** Rewrites prop("oldName") references in every formula column after a column is renamed */
+export function renameFormulaReferences(columns: ColumnDef[], oldName: string, newName: string): void {
+  if (oldName === newName) return;
+  // Matches prop("oldName") or prop('oldName'), allowing spaces inside the parentheses
+  const escaped = oldName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern = new RegExp(`prop\\(\\s*(["'])${escaped}\\1\\s*\\)`, 'g');
+  columns.forEach(col => {
+    if (col.type !== 'formula') return;
+    const typeOpts = col.typeOptions as FormulaTypeOptions | undefined;
+    if (typeOpts?.formula) {
+      typeOpts.formula = typeOpts.formula.replace(pattern, `prop("${newName.replace(/["\\]/g, '\\$&')}")`);
+    }
+  });
+}
@@ -0,0 +1,301 @@
+// src/formula/FormulaEvaluator.ts
+
+import {
+  addDays, addHours, addMinutes, addMonths, addWeeks, addYears,
+  differenceInCalendarDays, differenceInHours, differenceInMinutes, differenceInMonths, differenceInWeeks, differenceInYears,
+  format, startOfDay
+} from 'date-fns';
+import { FormulaError, FormulaNode } from './FormulaParser';
+
+/** A value produced while evaluating a formula. Lists come from multiselect columns. */
+export type FormulaValue = number | string | boolean | Date | string[] | null;
+
+/** Supplies column values to prop() */
+export interface FormulaContext {
+  getProp(name: string): FormulaValue;
+}
+
+interface FormulaFunction {
+  minArgs: number;
+  maxArgs: number; // Infinity for variadic functions
+  evaluate(args: FormulaValue[]): FormulaValue;
+}
+
+// --- Conversions ---
+
+export function isTruthy(value: FormulaValue): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'number') return value !== 0 && !isNaN(value);
+  return !!value;
+}
+
+export function toText(value: FormulaValue): string {
+  if (value === null) return '';
+  if (value instanceof Date) return format(value, 'yyyy-MM-dd');
+  if (Array.isArray(value)) return value.join(', ');
+  return String(value);
+}
+
+function toNumber(value: FormulaValue): number {
+  if (value === null) return 0;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value instanceof Date) return value.getTime();
+  if (Array.isArray(value)) throw new FormulaError('Expected a number but got a list');
+  const trimmed = value.trim();
+  if (trimmed === '') return 0;
+  const num = Number(trimmed);
+  if (isNaN(num)) throw new FormulaError(`"${value}" is not a number`);
+  return num;
+}
+
+function toDate(value: FormulaValue, functionName: string): Date | null {
+  if (value === null || value === '') return null;
+  if (value instanceof Date) return value;
+  if (typeof value === 'number') return new Date(value);
+  if (typeof value === 'string') {
+    const parsed = new Date(value);
+    if (!isNaN(parsed.getTime())) return parsed;
+  }
+  throw new FormulaError(`${functionName}() expects a date`);
+}
+
+function toList(value: FormulaValue): string[] {
+  if (value === null) return [];
+  if (Array.isArray(value)) return value;
+  return toText(value).split(',').map(item => item.trim()).filter(item => item !== '');
+}
+
+/** Numbers, dates and booleans compare numerically; anything else compares as text */
+function compare(left: FormulaValue, right: FormulaValue): number {
+  const isNumeric = (value: FormulaValue) => typeof value === 'number' || typeof value === 'boolean' || value instanceof Date;
+  if (isNumeric(left) && isNumeric(right)) return toNumber(left) - toNumber(right);
+  return toText(left).toLowerCase().localeCompare(toText(right).toLowerCase());
+}
+
+function isEqual(left: FormulaValue, right: FormulaValue): boolean {
+  if (left === null || right === null) return (left === null || left === '') && (right === null || right === '');
+  return compare(left, right) === 0;
+}
+
+// --- Functions ---
+
+const DATE_UNITS = ['years', 'months', 'weeks', 'days', 'hours', 'minutes'];
+
+function checkUnit(unit: FormulaValue, functionName: string): string {
+  const text = toText(unit).toLowerCase();
+  if (!DATE_UNITS.includes(text)) {
+    throw new FormulaError(`${functionName}() unit must be one of: ${DATE_UNITS.join(', ')}`);
+  }
+  return text;
+}
+
+const FUNCTIONS: Record<string, FormulaFunction> = {
+  // prop, if, and, or are evaluated lazily in evaluateCall; listed here for argument checks
+  prop: { minArgs: 1, maxArgs: 1, evaluate: () => null },
+  if: { minArgs: 2, maxArgs: 3, evaluate: () => null },
+  and: { minArgs: 1, maxArgs: Infinity, evaluate: () => null },
+  or: { minArgs: 1, maxArgs: Infinity, evaluate: () => null },
+  not: { minArgs: 1, maxArgs: 1, evaluate: ([value]) => !isTruthy(value) },
+
+  // Dates
+  today: { minArgs: 0, maxArgs: 0, evaluate: () => startOfDay(new Date()) },
+  now: { minArgs: 0, maxArgs: 0, evaluate: () => new Date() },
+  dateBetween: {
+    minArgs: 2, maxArgs: 3,
+    evaluate: ([endValue, startValue, unitValue]) => {
+      const end = toDate(endValue, 'dateBetween');
+      const start = toDate(startValue, 'dateBetween');
+      const unit = unitValue === undefined ? 'days' : checkUnit(unitValue, 'dateBetween');
+      if (!end || !start) return null;
+      switch (unit) {
+        case 'years': return differenceInYears(end, start);
+        case 'months': return differenceInMonths(end, start);
+        case 'weeks': return differenceInWeeks(end, start);
+        case 'hours': return differenceInHours(end, start);
+        case 'minutes': return differenceInMinutes(end, start);
+        default: return differenceInCalendarDays(end, start);
+      }
+    }
+  },
+  dateAdd: {
+    minArgs: 2, maxArgs: 3,
+    evaluate: ([dateValue, amountValue, unitValue]) => {
+      const date = toDate(dateValue, 'dateAdd');
+      const amount = toNumber(amountValue);
+      const unit = unitValue === undefined ? 'days' : checkUnit(unitValue, 'dateAdd');
+      if (!date) return null;
+      switch (unit) {
+        case 'years': return addYears(date, amount);
+        case 'months': return addMonths(date, amount);
+        case 'weeks': return addWeeks(date, amount);
+        case 'hours': return addHours(date, amount);
+        case 'minutes': return addMinutes(date, amount);
+        default: return addDays(date, amount);
+      }
+    }
+  },
+  formatDate: {
+    minArgs: 1, maxArgs: 2,
+    evaluate: ([dateValue, patternValue]) => {
+      const date = toDate(dateValue, 'formatDate');
+      if (!date) return '';
+      try {
+        return format(date, patternValue === undefined ? 'yyyy-MM-dd' : toText(patternValue));
+      } catch (e) {
+        throw new FormulaError(`Invalid date pattern "${toText(patternValue)}"`);
+      }
+    }
+  },
+
+  // Lists and text
+  count: { minArgs: 1, maxArgs: 1, evaluate: ([value]) => toList(value).length },
+  contains: {
+    minArgs: 2, maxArgs: 2,
+    evaluate: ([haystack, needle]) => {
+      const target = toText(needle).toLowerCase();
+      if (Array.isArray(haystack)) return haystack.some(item => item.toLowerCase() === target);
+      return toText(haystack).toLowerCase().includes(target);
+    }
+  },
+  empty: {
+    minArgs: 1, maxArgs: 1,
+    evaluate: ([value]) => value === null || value === '' || (Array.isArray(value) && value.length === 0)
+  },
+  length: {
+    minArgs: 1, maxArgs: 1,
+    evaluate: ([value]) => Array.isArray(value) ? value.length : toText(value).length
+  },
+  concat: { minArgs: 1, maxArgs: Infinity, evaluate: (args) => args.map(toText).join('') },
+  lower: { minArgs: 1, maxArgs: 1, evaluate: ([value]) => toText(value).toLowerCase() },
+  upper: { minArgs: 1, maxArgs: 1, evaluate: ([value]) => toText(value).toUpperCase() },
+
+  // Numbers
+  toNumber: {
+    minArgs: 1, maxArgs: 1,
+    evaluate: ([value]) => {
+      const num = Number(toText(value).replace(/[^0-9eE.+-]/g, ''));
+      return toText(value).trim() === '' || isNaN(num) ? null : num;
+    }
+  },
+  round: {
+    minArgs: 1, maxArgs: 2,
+    evaluate: ([value, placesValue]) => {
+      const factor = Math.pow(10, placesValue === undefined ? 0 : toNumber(placesValue));
+      return Math.round(toNumber(value) * factor) / factor;
+    }
+  },
+  abs: { minArgs: 1, maxArgs: 1, evaluate: ([value]) => Math.abs(toNumber(value)) },
+  floor: { minArgs: 1, maxArgs: 1, evaluate: ([value]) => Math.floor(toNumber(value)) },
+  ceil: { minArgs: 1, maxArgs: 1, evaluate: ([value]) => Math.ceil(toNumber(value)) },
+  min: { minArgs: 1, maxArgs: Infinity, evaluate: (args) => Math.min(...args.map(toNumber)) },
+  max: { minArgs: 1, maxArgs: Infinity, evaluate: (args) => Math.max(...args.map(toNumber)) },
+};
+
+/** Names of the functions formulas can call, for the editor's reference list */
+export const FORMULA_FUNCTION_NAMES = Object.keys(FUNCTIONS);
+
+/**
+ * Checks every call in the tree against the function table (name and argument count).
+ * @throws FormulaError for the first unknown function or wrong argument count.
+ */
+export function checkFunctionCalls(node: FormulaNode): void {
+  switch (node.kind) {
+    case 'call': {
+      const fn = FUNCTIONS[node.name];
+      if (!fn) throw new FormulaError(`Unknown function "${node.name}"`, node.position);
+      if (node.args.length < fn.minArgs || node.args.length > fn.maxArgs) {
+        const expected = fn.minArgs === fn.maxArgs
+          ? `${fn.minArgs}`
+          : fn.maxArgs === Infinity ? `at least ${fn.minArgs}` : `${fn.minArgs} to ${fn.maxArgs}`;
+        throw new FormulaError(`${node.name}() takes ${expected} argument${expected === '1' ? '' : 's'}`, node.position);
+      }
+      node.args.forEach(checkFunctionCalls);
+      break;
+    }
+    case 'unary':
+      checkFunctionCalls(node.operand);
+      break;
+    case 'binary':
+      checkFunctionCalls(node.left);
+      checkFunctionCalls(node.right);
+      break;
+  }
+}
+
+// --- Evaluation ---
+
+/**
+ * Evaluates a parsed formula against one row.
+ * @throws FormulaError for runtime problems (unknown column, bad types, division by zero).
+ */
+export function evaluateFormula(node: FormulaNode, context: FormulaContext): FormulaValue {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'unary': {
+      const operand = evaluateFormula(node.operand, context);
+      return node.operator === '!' ? !isTruthy(operand) : -toNumber(operand);
+    }
+    case 'binary':
+      return evaluateBinary(node.operator, node.left, node.right, context);
+    case 'call':
+      return evaluateCall(node, context);
+  }
+}
+
+function evaluateBinary(operator: string, leftNode: FormulaNode, rightNode: FormulaNode, context: FormulaContext): FormulaValue {
+  // Short-circuit logical operators
+  if (operator === '&&') return isTruthy(evaluateFormula(leftNode, context)) && isTruthy(evaluateFormula(rightNode, context));
+  if (operator === '||') return isTruthy(evaluateFormula(leftNode, context)) || isTruthy(evaluateFormula(rightNode, context));
+
+  const left = evaluateFormula(leftNode, context);
+  const right = evaluateFormula(rightNode, context);
+  switch (operator) {
+    case '+':
+      // Text (or a list) on either side joins as text: "Total: " + prop("Price")
+      if (typeof left === 'string' || typeof right === 'string' || Array.isArray(left) || Array.isArray(right)) {
+        return toText(left) + toText(right);
+      }
+      return toNumber(left) + toNumber(right);
+    case '-': return toNumber(left) - toNumber(right);
+    case '*': return toNumber(left) * toNumber(right);
+    case '/': {
+      const divisor = toNumber(right);
+      if (divisor === 0) throw new FormulaError('Division by zero');
+      return toNumber(left) / divisor;
+    }
+    case '%': {
+      const divisor = toNumber(right);
+      if (divisor === 0) throw new FormulaError('Division by zero');
+      return toNumber(left) % divisor;
+    }
+    case '==': return isEqual(left, right);
+    case '!=': return !isEqual(left, right);
+    case '<': return compare(left, right) < 0;
+    case '>': return compare(left, right) > 0;
+    case '<=': return compare(left, right) <= 0;
+    case '>=': return compare(left, right) >= 0;
+    default:
+      throw new FormulaError(`Unknown operator "${operator}"`);
+  }
+}
+
+function evaluateCall(node: Extract<FormulaNode, { kind: 'call' }>, context: FormulaContext): FormulaValue {
+  switch (node.name) {
+    case 'prop':
+      return context.getProp(toText(evaluateFormula(node.args[0], context)));
+    case 'if':
+      // Only the chosen branch is evaluated, so if(prop("Qty") == 0, 0, prop("Total") / prop("Qty")) is safe
+      if (isTruthy(evaluateFormula(node.args[0], context))) return evaluateFormula(node.args[1], context);
+      return node.args.length > 2 ? evaluateFormula(node.args[2], context) : null;
+    case 'and':
+      return node.args.every(arg => isTruthy(evaluateFormula(arg, context)));
+    case 'or':
+      return node.args.some(arg => isTruthy(evaluateFormula(arg, context)));
+  }
+
+  const fn = FUNCTIONS[node.name];
+  if (!fn) throw new FormulaError(`Unknown function "${node.name}"`, node.position);
+  return fn.evaluate(node.args.map(arg => evaluateFormula(arg, context)));
+}
@@ -0,0 +1,240 @@
+// src/formula/FormulaParser.ts
+
+/**
+ * Parses formula text into a syntax tree.
+ *
+ * Grammar (lowest to highest precedence):
+ *   ||   &&   == !=   < > <= >=   + -   * / %   unary - !   calls, literals, ( )
+ * Literals: numbers (1.5), strings ("text" or 'text'), true, false.
+ * Calls: name(arg, ...), e.g. prop("Price") * 2 or if(prop("Done"), "✓", "").
+ */
+
+/** A syntax or evaluation problem, with the character offset it was found at when known */
+export class FormulaError extends Error {
+  constructor(message: string, public position?: number) {
+    super(message);
+    this.name = 'FormulaError';
+  }
+}
+
+export type BinaryOperator = '+' | '-' | '*' | '/' | '%' | '==' | '!=' | '<' | '>' | '<=' | '>=' | '&&' | '||';
+
+export type FormulaNode =
+  | { kind: 'literal'; value: number | string | boolean }
+  | { kind: 'call'; name: string; args: FormulaNode[]; position: number }
+  | { kind: 'unary'; operator: '-' | '!'; operand: FormulaNode }
+  | { kind: 'binary'; operator: BinaryOperator; left: FormulaNode; right: FormulaNode };
+
+// --- Tokenizer ---
+
+type TokenType = 'number' | 'string' | 'identifier' | 'operator' | 'paren' | 'comma' | 'end';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  position: number;
+}
+
+// Longest operators first so "<=" isn't read as "<" then "="
+const OPERATORS = ['==', '!=', '<=', '>=', '&&', '||', '+', '-', '*', '/', '%', '<', '>', '!'];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < source.length) {
+    const char = source[pos];
+
+    if (/\s/.test(char)) { pos++; continue; }
+
+    // Numbers: 12, 1.5, .5
+    const numberMatch = /^(\d+\.?\d*|\.\d+)/.exec(source.substring(pos));
+    if (numberMatch) {
+      tokens.push({ type: 'number', text: numberMatch[0], position: pos });
+      pos += numberMatch[0].length;
+      continue;
+    }
+
+    // Strings in double or single quotes, with backslash escapes
+    if (char === '"' || char === "'") {
+      const start = pos;
+      let text = '';
+      pos++;
+      while (pos < source.length && source[pos] !== char) {
+        if (source[pos] === '\\' && pos + 1 < source.length) pos++;
+        text += source[pos];
+        pos++;
+      }
+      if (pos >= source.length) throw new FormulaError('Unterminated string', start);
+      pos++; // Closing quote
+      tokens.push({ type: 'string', text: text, position: start });
+      continue;
+    }
+
+    const identifierMatch = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.substring(pos));
+    if (identifierMatch) {
+      tokens.push({ type: 'identifier', text: identifierMatch[0], position: pos });
+      pos += identifierMatch[0].length;
+      continue;
+    }
+
+    if (char === '(' || char === ')') {
+      tokens.push({ type: 'paren', text: char, position: pos });
+      pos++;
+      continue;
+    }
+    if (char === ',') {
+      tokens.push({ type: 'comma', text: char, position: pos });
+      pos++;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.substring(pos, pos + op.length) === op);
+    if (operator) {
+      tokens.push({ type: 'operator', text: operator, position: pos });
+      pos += operator.length;
+      continue;
+    }
+
+    throw new FormulaError(`Unexpected character "${char}"`, pos);
+  }
+
+  tokens.push({ type: 'end', text: '', position: source.length });
+  return tokens;
+}
+
+// --- Parser ---
+
+// Binary operator precedence; higher binds tighter
+const PRECEDENCE: Record<string, number> = {
+  '||': 1,
+  '&&': 2,
+  '==': 3, '!=': 3,
+  '<': 4, '>': 4, '<=': 4, '>=': 4,
+  '+': 5, '-': 5,
+  '*': 6, '/': 6, '%': 6,
+};
+
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  public parse(): FormulaNode {
+    const node = this.parseExpression(0);
+    const next = this.peek();
+    if (next.type !== 'end') throw new FormulaError(`Unexpected "${next.text}"`, next.position);
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  /** Precedence climbing: parses operators that bind at least as tightly as minPrecedence */
+  private parseExpression(minPrecedence: number): FormulaNode {
+    let left = this.parseUnary();
+    while (true) {
+      const token = this.peek();
+      const precedence = token.type === 'operator' ? PRECEDENCE[token.text] : undefined;
+      if (precedence === undefined || precedence < minPrecedence) return left;
+      this.next();
+      const right = this.parseExpression(precedence + 1); // Left-associative
+      left = { kind: 'binary', operator: token.text as BinaryOperator, left: left, right: right };
+    }
+  }
+
+  private parseUnary(): FormulaNode {
+    const token = this.peek();
+    if (token.type === 'operator' && (token.text === '-' || token.text === '!')) {
+      this.next();
+      return { kind: 'unary', operator: token.text, operand: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): FormulaNode {
+    const token = this.next();
+    switch (token.type) {
+      case 'number':
+        return { kind: 'literal', value: parseFloat(token.text) };
+      case 'string':
+        return { kind: 'literal', value: token.text };
+      case 'identifier':
+        if (token.text === 'true' || token.text === 'false') {
+          return { kind: 'literal', value: token.text === 'true' };
+        }
+        return this.parseCall(token);
+      case 'paren':
+        if (token.text === '(') {
+          const inner = this.parseExpression(0);
+          this.expect(')', 'Missing ")"');
+          return inner;
+        }
+        break;
+      case 'end':
+        throw new FormulaError('Formula ends unexpectedly', token.position);
+    }
+    throw new FormulaError(`Unexpected "${token.text}"`, token.position);
+  }
+
+  private parseCall(nameToken: Token): FormulaNode {
+    const open = this.peek();
+    if (open.type !== 'paren' || open.text !== '(') {
+      throw new FormulaError(`Unknown name "${nameToken.text}" (use prop("${nameToken.text}") to refer to a column)`, nameToken.position);
+    }
+    this.next();
+
+    const args: FormulaNode[] = [];
+    if (!(this.peek().type === 'paren' && this.peek().text === ')')) {
+      args.push(this.parseExpression(0));
+      while (this.peek().type === 'comma') {
+        this.next();
+        args.push(this.parseExpression(0));
+      }
+    }
+    this.expect(')', `Missing ")" after arguments to ${nameToken.text}()`);
+    return { kind: 'call', name: nameToken.text, args: args, position: nameToken.position };
+  }
+
+  private expect(text: string, message: string) {
+    const token = this.next();
+    if (token.text !== text) throw new FormulaError(message, token.position);
+  }
+}
+
+/**
+ * Parses formula text.
+ * @throws FormulaError describing the first syntax error.
+ */
+export function parseFormula(source: string): FormulaNode {
+  return new Parser(tokenize(source)).parse();
+}
+
+/** Returns the column names referenced through prop("...") with a literal name */
+export function collectPropReferences(node: FormulaNode): string[] {
+  const names: string[] = [];
+  const visit = (current: FormulaNode) => {
+    switch (current.kind) {
+      case 'call':
+        if (current.name === 'prop' && current.args[0]?.kind === 'literal' && typeof current.args[0].value === 'string') {
+          names.push(current.args[0].value);
+        }
+        current.args.forEach(visit);
+        break;
+      case 'unary':
+        visit(current.operand);
+        break;
+      case 'binary':
+        visit(current.left);
+        visit(current.right);
+        break;
+    }
+  };
+  visit(node);
+  return names;
+}
@@ -8,12 +8,21 @@ import { setIcon } from 'obsidian';
 export const ICON_NAMES = {
   sort: 'arrow-up-down',
   filter: 'filter',
+  columns: 'eye',
+  search: 'search',
+  group: 'layers',
+  chevronDown: 'chevron-down',
+  chevronRight: 'chevron-right',
   text: 'case-sensitive',
+  number: 'hash',
   dropdown: 'circle-chevron-down',
   multiselect: 'list',
   checkbox: 'check-square',
   date: 'calendar',
   link: 'link',
+  formula: 'sigma',
+  relation: 'arrow-left-right',
+  rollup: 'calculator',
   plus: 'plus',
   moreVertical: 'more-vertical',
   trash: 'trash-2',
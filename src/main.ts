@@ -8,6 +8,7 @@ import {
     Setting,
     Notice,
     TAbstractFile, // Represents files OR folders
+    Editor,
     ItemView // Base class used by JsonTableView now
 } from 'obsidian';
 import {
@@ -17,18 +18,45 @@ import {
     VIEW_TYPE_JSON_TABLE,
     TableData,
     JsonTableSettings, // Assuming moved to types.ts
-    DEFAULT_SETTINGS // Assuming moved to types.ts
+    DEFAULT_SETTINGS, // Assuming moved to types.ts
+    RelationTypeOptions,
+    createDefaultView
 } from './types'; // Central types file
 // --- Import Handlers ---
 import {
     ITableFileHandler
 } from './fileHandlers/ITableFileHandler';
-import {
-    JsonFileHandler
-} from './fileHandlers/JsonFileHandler';
 import {
     MarkdownFileHandler
 } from './fileHandlers/MarkdownFileHandler';
+import {
+    getTableFileHandler
+} from './fileHandlers/tableFiles';
+import {
+    ROW_ID_COLUMN,
+    createRowId
+} from './rowIds';
+import {
+    parseCsvFile
+} from './csv/CsvParser';
+import {
+    buildTableData,
+    prepareCsvImport
+} from './csv/csvImport';
+import {
+    CsvImportModal
+} from './modals/CsvImportModal';
+import {
+    findPipeTable,
+    parsePipeTable
+} from './markdownTable';
+
+/** Overrides for createNewTable; by default it creates an empty two-column table named "New Table" and opens it */
+interface NewTableOptions {
+    data?: TableData; // Initial contents
+    baseName?: string; // File name without extension (a number is added if taken)
+    open?: boolean; // Open the new file in a tab (default true)
+}
 
 export default class JsonTablePlugin extends Plugin {
     settings: JsonTableSettings; // Store settings
@@ -94,6 +122,17 @@ export default class JsonTablePlugin extends Plugin {
                         }
                     }
                 }
+                // --- Condition 3: Export Table File to CSV ---
+                if (file instanceof TFile && (file.name.endsWith('.table.md') || file.name.endsWith('.table.json'))) {
+                    menu.addItem((item) => {
+                        item
+                            .setTitle('Export to CSV')
+                            .setIcon('download')
+                            .onClick(async () => {
+                                await this.exportTableFile(file);
+                            });
+                    });
+                }
             })
         );
         // files-menu listener for folder context
@@ -145,6 +184,96 @@ export default class JsonTablePlugin extends Plugin {
             },
         });
 
+        this.addCommand({
+            id: 'import-csv-into-table',
+            name: 'Import CSV into current table',
+            checkCallback: (checking: boolean) => {
+                const view = this.app.workspace.getActiveViewOfType(JsonTableView);
+                if (!view || !view.data) return false;
+                if (!checking) view.importCsvIntoTable();
+                return true;
+            },
+        });
+
+        this.addCommand({
+            id: 'export-table-csv',
+            name: 'Export current table to CSV',
+            checkCallback: (checking: boolean) => {
+                const view = this.app.workspace.getActiveViewOfType(JsonTableView);
+                if (!view || !view.data) return false;
+                if (!checking) view.exportCsv();
+                return true;
+            },
+        });
+
+        this.addCommand({
+            id: 'copy-view-markdown-table',
+            name: 'Copy current view as Markdown table',
+            checkCallback: (checking: boolean) => {
+                const view = this.app.workspace.getActiveViewOfType(JsonTableView);
+                if (!view || !view.data) return false;
+                if (!checking) view.copyAsMarkdownTable();
+                return true;
+            },
+        });
+
+        // Turn a hand-written pipe table in a note into a table file
+        this.addCommand({
+            id: 'convert-markdown-table',
+            name: 'Convert Markdown table to table file',
+            editorCheckCallback: (checking: boolean, editor, ctx) => {
+                if (!findPipeTable(editor.getValue().split('\n'), editor.getCursor().line)) return false;
+                if (!checking) this.convertMarkdownTable(editor, ctx.file, false);
+                return true;
+            },
+        });
+
+        this.addCommand({
+            id: 'replace-markdown-table',
+            name: 'Replace Markdown table with embedded table file',
+            editorCheckCallback: (checking: boolean, editor, ctx) => {
+                if (!findPipeTable(editor.getValue().split('\n'), editor.getCursor().line)) return false;
+                if (!checking) this.convertMarkdownTable(editor, ctx.file, true);
+                return true;
+            },
+        });
+
+        // Keyboard equivalents of dragging a row's handle (act on the last focused row)
+        this.addCommand({
+            id: 'move-row-up',
+            name: 'Move row up',
+            checkCallback: (checking: boolean) => this.runRowMoveCommand(checking, -1),
+        });
+
+        this.addCommand({
+            id: 'move-row-down',
+            name: 'Move row down',
+            checkCallback: (checking: boolean) => this.runRowMoveCommand(checking, 1),
+        });
+
+        // Undo/redo of table edits (also bound to Mod+Z / Mod+Shift+Z inside the table view)
+        this.addCommand({
+            id: 'undo-table-edit',
+            name: 'Undo table edit',
+            checkCallback: (checking: boolean) => {
+                const view = this.app.workspace.getActiveViewOfType(JsonTableView);
+                if (!view || !view.canUndo()) return false;
+                if (!checking) view.undo();
+                return true;
+            },
+        });
+
+        this.addCommand({
+            id: 'redo-table-edit',
+            name: 'Redo table edit',
+            checkCallback: (checking: boolean) => {
+                const view = this.app.workspace.getActiveViewOfType(JsonTableView);
+                if (!view || !view.canRedo()) return false;
+                if (!checking) view.redo();
+                return true;
+            },
+        });
+
 
         // --- Link Updating Listeners ---
         this.registerEvent(
@@ -224,6 +353,18 @@ export default class JsonTablePlugin extends Plugin {
         // Clean up resources, interval timers etc. if any were added
     }
 
+    /** Shared checkCallback for the move row up/down commands */
+    runRowMoveCommand(checking: boolean, offset: -1 | 1): boolean {
+        const renderer = this.app.workspace.getActiveViewOfType(JsonTableView)?.getRenderer();
+        if (!renderer || !renderer.hasFocusedRow()) {
+            return false; // Only available with a table view and a focused row
+        }
+        if (!checking) {
+            renderer.moveFocusedRow(offset);
+        }
+        return true;
+    }
+
     // --- File Extension Registration ---
     /** Registers the primary file extensions our view might handle */
     registerFileExtensions() {
@@ -254,8 +395,11 @@ export default class JsonTablePlugin extends Plugin {
 
 
     // --- File Creation ---
-    /** Creates a new table file based on settings in the target folder */
-    async createNewTable(targetFolder: TAbstractFile) {
+    /**
+     * Creates a new table file based on settings in the target folder
+     * @returns The new file, or null if it couldn't be created
+     */
+    async createNewTable(targetFolder: TAbstractFile, options: NewTableOptions = {}): Promise<TFile | null> {
         // Ensure targetFolder is valid and is actually a folder
         if (!targetFolder || targetFolder instanceof TFile) {
             console.error("Invalid target folder provided for createNewTable. Using Vault root.");
@@ -266,7 +410,7 @@ export default class JsonTablePlugin extends Plugin {
         const colId1 = "col" + Date.now() + "_1";
         const colId2 = "col" + Date.now() + "_2";
         // --- UPDATED Default table structure ---
-        const defaultTable: TableData = {
+        const defaultTable: TableData = options.data || {
             columns: [{
                 id: colId1, name: "Column 1", type: "text", width: 150,
                 typeOptions: {} // Add empty typeOptions
@@ -275,13 +419,10 @@ export default class JsonTablePlugin extends Plugin {
                 typeOptions: {} // Add empty typeOptions
             }],
             rows: [
-                [{ column: colId1, value: "" }, { column: colId2, value: "" }]
+                [{ column: colId1, value: "" }, { column: colId2, value: "" }, { column: ROW_ID_COLUMN, value: createRowId() }]
             ],
             // Add the default views array
-            views: [{
-                id: 'default_' + Date.now(), name: 'Default', sort: [], filter: []
-                // hiddenColumns: [] // Add if/when implemented
-            }]
+            views: [createDefaultView()]
         };
         // --- END UPDATED Default structure ---
 
@@ -289,7 +430,7 @@ export default class JsonTablePlugin extends Plugin {
         let fileContent = '';
         let counter = 1;
         let filePath = '';
-        const baseName = 'New Table';
+        const baseName = options.baseName || 'New Table';
         // Determine folder path, handling root case correctly
         const folderPath = targetFolder.path === '/' ? '' : targetFolder.path;
 
@@ -331,22 +472,26 @@ export default class JsonTablePlugin extends Plugin {
         // Create and open the file
         try {
             const file = await this.app.vault.create(filePath, fileContent);
-            // Open in the current leaf or a new one
-            const leaf = this.app.workspace.getLeaf('tab'); // Open in a new tab for clarity
-            await leaf.openFile(file);
+            if (options.open !== false) {
+                // Open in the current leaf or a new one
+                const leaf = this.app.workspace.getLeaf('tab'); // Open in a new tab for clarity
+                await leaf.openFile(file);
+            }
+            return file;
         } catch (error) {
             console.error(`Error creating table file "${filePath}":`, error);
             new Notice('Error creating table file. Check console for details.');
+            return null;
         }
     }
 
     // --- CSV Import ---
-    /** Import CSV file and create a new table file */
+    /** Import a CSV/TSV file and create a new table file, after previewing it in the import modal */
     async importCSVFile() {
         // Create hidden file input element
         const input = document.createElement('input');
         input.type = 'file';
-        input.accept = '.csv';
+        input.accept = '.csv,.tsv,.txt';
         input.style.display = 'none';
 
         // Handle file selection
@@ -358,30 +503,28 @@ export default class JsonTablePlugin extends Plugin {
             }
 
             try {
-                // Read file content
-                const text = await file.text();
-                
-                // Parse CSV
-                const result = this.parseCSV(text);
-                if (!result) {
-                    new Notice('Failed to parse CSV file. Check console for details.');
-                    input.remove();
-                    return;
-                }
-
                 // Determine target folder
                 const activeFile = this.app.workspace.getActiveFile();
                 const targetFolder: TAbstractFile | null = activeFile ? activeFile.parent : this.app.vault.getRoot();
                 if (!targetFolder || targetFolder instanceof TFile) {
                     new Notice('Error: Could not determine target folder.');
-                    input.remove();
                     return;
                 }
 
-                // Create table file
-                await this.createTableFromCSV(targetFolder, file.name, result);
-                new Notice('CSV imported successfully!');
-                
+                // Parse, then let the user map columns before anything is created
+                const importData = prepareCsvImport(await parseCsvFile(file));
+                if (importData.headers.length === 0) {
+                    new Notice('The file is empty.');
+                    return;
+                }
+                new CsvImportModal(this.app, file.name, importData, async (columns) => {
+                    if (!await this.createTableFromCSV(targetFolder, file.name, buildTableData(importData, columns))) return;
+                    const skipped = importData.skipped.length;
+                    new Notice(skipped > 0
+                        ? `Imported ${importData.rows.length} rows; skipped ${skipped}.`
+                        : `Imported ${importData.rows.length} rows.`);
+                }).open();
+
             } catch (error) {
                 console.error('Error importing CSV:', error);
                 new Notice('Error importing CSV file. Check console for details.');
@@ -395,74 +538,77 @@ export default class JsonTablePlugin extends Plugin {
         input.click();
     }
 
-    /** Parse CSV content into columns and rows */
-    parseCSV(content: string): { columns: string[], rows: string[][] } | null {
-        try {
-            const lines = content.split('\n').filter(line => line.trim());
-            if (lines.length < 1) {
-                console.error('CSV file is empty');
-                return null;
+    // --- Markdown Table Conversion ---
+    /**
+     * Converts the pipe table under the cursor into a new table file (of the format the renderer setting picks),
+     * after previewing its columns in the import modal.
+     * @param replace Replace the table in the note with an embed of the new file, which then keeps a Markdown copy of the table.
+     * Only for .table.md files, so it is refused when the setting creates .table.json files.
+     */
+    convertMarkdownTable(editor: Editor, sourceFile: TFile | null, replace: boolean) {
+        const lines = editor.getValue().split('\n');
+        const range = findPipeTable(lines, editor.getCursor().line);
+        if (!range) {
+            new Notice('Place the cursor in a Markdown table.');
+            return;
+        }
+        // The embed is only readable through the Markdown copy of the table that .table.md files keep
+        if (replace && this.settings.tableRenderer !== 'default') {
+            new Notice('Replacing a Markdown table needs .table.md files. Choose the default table renderer in the settings, or convert the table without replacing it.');
+            return;
+        }
+        const tableText = lines.slice(range.from, range.to + 1).join('\n');
+        const importData = prepareCsvImport(parsePipeTable(lines.slice(range.from, range.to + 1), range.from + 1));
+
+        new CsvImportModal(this.app, 'Markdown table', importData, async (columns) => {
+            const tableData = buildTableData(importData, columns);
+            if (replace) tableData.syncMarkdownTable = true; // So the embed shows a readable table
+            const targetFolder = sourceFile?.parent || this.app.vault.getRoot();
+            const baseName = `${sourceFile ? sourceFile.basename : 'Untitled'} table`.replace(/[\\/:*?"<>|#^[\]]/g, '_');
+            const file = await this.createNewTable(targetFolder, { data: tableData, baseName: baseName, open: false });
+            if (!file) return;
+            // Write the note links to the frontmatter (and the synced table) of .table.md files the way
+            // every later save does, before any pane shows the file
+            await this.getHandlerForFile(file)?.save(file, tableData);
+            if (!replace) {
+                await this.app.workspace.getLeaf('tab').openFile(file);
+                return;
             }
 
-            // Parse header row
-            const headers = this.parseCSVLine(lines[0]);
-            
-            // Parse data rows
-            const rows: string[][] = [];
-            for (let i = 1; i < lines.length; i++) {
-                const row = this.parseCSVLine(lines[i]);
-                // Only add rows with the correct number of columns
-                if (row.length === headers.length) {
-                    rows.push(row);
-                }
+            // Leave the note alone if the table was edited while the modal was open
+            const currentLines = editor.getValue().split('\n');
+            if (currentLines.slice(range.from, range.to + 1).join('\n') !== tableText) {
+                new Notice(`Created ${file.path}, but the table in the note changed meanwhile, so it was not replaced.`);
+                return;
             }
-
-            return { columns: headers, rows };
-        } catch (error) {
-            console.error('Error parsing CSV:', error);
-            return null;
-        }
+            const linkText = this.app.metadataCache.fileToLinktext(file, sourceFile?.path || '');
+            editor.replaceRange(`![[${linkText}]]`, { line: range.from, ch: 0 }, { line: range.to, ch: currentLines[range.to].length });
+        }).open();
     }
 
-    /** Parse a single CSV line, handling quoted values */
-    parseCSVLine(line: string): string[] {
-        const result: string[] = [];
-        let current = '';
-        let inQuotes = false;
-
-        for (let i = 0; i < line.length; i++) {
-            const char = line[i];
-            const nextChar = line[i + 1];
-
-            if (char === '"') {
-                if (inQuotes && nextChar === '"') {
-                    // Escaped quote
-                    current += '"';
-                    i++; // Skip next quote
-                } else {
-                    // Toggle quote state
-                    inQuotes = !inQuotes;
-                }
-            } else if (char === ',' && !inQuotes) {
-                // End of field
-                result.push(current.trim());
-                current = '';
-            } else {
-                current += char;
-            }
+    /** Opens the export dialog for a table file, opening the table first if no pane shows it */
+    async exportTableFile(file: TFile) {
+        let view = this.app.workspace.getLeavesOfType(VIEW_TYPE_JSON_TABLE)
+            .map(leaf => leaf.view)
+            .find((v): v is JsonTableView => v instanceof JsonTableView && v.getFilePath() === file.path);
+        if (!view) {
+            const leaf = this.app.workspace.getLeaf('tab');
+            await leaf.setViewState({ type: VIEW_TYPE_JSON_TABLE, state: { file: file.path } }, { focus: true });
+            if (leaf.view instanceof JsonTableView) view = leaf.view;
         }
-
-        // Add last field
-        result.push(current.trim());
-        return result;
+        if (!view || !view.data) {
+            new Notice('Could not open the table to export it.');
+            return;
+        }
+        view.exportCsv();
     }
 
-    /** Create table file from CSV data */
-    async createTableFromCSV(targetFolder: TAbstractFile, csvFileName: string, csvData: { columns: string[], rows: string[][] }) {
+    /** Create table file from imported CSV data. @returns Whether the file was created */
+    async createTableFromCSV(targetFolder: TAbstractFile, csvFileName: string, tableData: TableData): Promise<boolean> {
         const folderPath = targetFolder.path === '.' ? '' : targetFolder.path;
         
         // Generate safe filename from CSV filename
-        const baseName = csvFileName.replace(/\.csv$/i, '').replace(/[^a-zA-Z0-9-_]/g, '_');
+        const baseName = csvFileName.replace(/\.(csv|tsv|txt)$/i, '').replace(/[^a-zA-Z0-9-_]/g, '_');
         const extension = this.settings.tableRenderer === 'default' ? '.table.md' : '.table.json';
         let fileName = `${baseName}${extension}`;
         let filePath = folderPath ? `${folderPath}/${fileName}` : fileName;
@@ -475,34 +621,6 @@ export default class JsonTablePlugin extends Plugin {
             counter++;
         }
 
-        // Create columns from CSV headers
-        const columns = csvData.columns.map((header, index) => ({
-            id: `col_${index}`,
-            name: header,
-            type: 'text' as const,
-            width: 150
-        }));
-
-        // Create rows from CSV data
-        const rows = csvData.rows.map((row) =>
-            row.map((value, colIndex) => ({
-                column: `col_${colIndex}`,
-                value: value
-            }))
-        );
-
-        // Create TableData structure
-        const tableData: TableData = {
-            columns: columns,
-            rows: rows,
-            views: [{
-                id: 'default_' + Date.now(),
-                name: 'Default',
-                sort: [],
-                filter: []
-            }]
-        };
-
         // Create file content based on renderer setting
         let fileContent: string;
         if (this.settings.tableRenderer === 'default') {
@@ -522,9 +640,11 @@ export default class JsonTablePlugin extends Plugin {
             const file = await this.app.vault.create(filePath, fileContent);
             const leaf = this.app.workspace.getLeaf('tab');
             await leaf.openFile(file);
+            return true;
         } catch (error) {
             console.error(`Error creating table file "${filePath}":`, error);
             new Notice('Error creating table file. Check console for details.');
+            return false;
         }
     }
 
@@ -533,14 +653,8 @@ export default class JsonTablePlugin extends Plugin {
 
     /** Determines the correct file handler based on file extension */
     getHandlerForFile(file: TFile): ITableFileHandler | null {
-        if (file.name.endsWith('.table.md')) {
-            // Return handler only if setting allows it? Or always return if exists?
-            // Let's assume we always return if it's the right format, view handles setting.
-            return new MarkdownFileHandler(this.app);
-        } else if (file.name.endsWith('.table.json')) {
-            return new JsonFileHandler(this.app);
-        }
-        return null; // Not one of our managed table files
+        // The view checks the renderer setting; here any table file gets its handler
+        return getTableFileHandler(this.app, file);
     }
 
     /** Scans all relevant table files and updates links matching oldPath to newPath */
@@ -571,10 +685,17 @@ export default class JsonTablePlugin extends Plugin {
                     continue;
                 }
 
+                // Relation columns point at other tables by path
+                data.columns.forEach(col => {
+                    const typeOpts = col.typeOptions as RelationTypeOptions | undefined;
+                    if (col.type === 'relation' && typeOpts?.targetTable === oldPath) {
+                        typeOpts.targetTable = newPath;
+                        dataChanged = true;
+                    }
+                });
+
                 // Find which columns are 'notelink' type
                 const linkColumns = data.columns.filter(col => col.type === 'notelink').map(col => col.id);
-                // If no link columns in this table, skip the rest
-                if (linkColumns.length === 0) continue;
 
                 // Iterate through rows and cells to find and update matching links
                 data.rows.forEach(row => {
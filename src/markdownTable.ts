@@ -0,0 +1,143 @@
+// src/markdownTable.ts
+
+import { App } from 'obsidian';
+import { CellData, ColumnDef, NumberTypeOptions, TableData } from './types';
+import { ExportSource } from './csv/csvExport';
+import { CsvParseResult, CsvRecord } from './csv/CsvParser';
+import { FORMULA_ERROR_DISPLAY, computeFormula, formulaValueToCellString, formulaValueToDisplay } from './formula/FormulaEngine';
+import { DateRenderer } from './renderers/DateRenderer';
+import { formatNumber } from './renderers/NumberRenderer';
+
+/**
+ * Writes the source as a GitHub Flavored Markdown pipe table.
+ * Note links become [[wikilinks]], checkboxes [x] / [ ], and multi-select values are comma-separated;
+ * other cells use their displayed text. Pipes are escaped and line breaks become <br>.
+ * Returns '' when there are no columns (a pipe table needs at least one).
+ */
+export function buildMarkdownTable(source: ExportSource): string {
+  if (source.columns.length === 0) return '';
+  const lines = [
+    toTableLine(source.columns.map(col => col.name)),
+    toTableLine(source.columns.map(col => col.type === 'number' ? '---:' : '---')), // Numbers align right
+  ];
+  source.rows.forEach(row => {
+    lines.push(toTableLine(source.columns.map(col => getMarkdownCellText(source, row, col))));
+  });
+  return lines.join('\n');
+}
+
+function getMarkdownCellText(source: ExportSource, row: CellData[], column: ColumnDef): string {
+  switch (column.type) {
+    case 'checkbox':
+      return source.getRawValue(row, column) === 'true' ? '[x]' : '[ ]';
+    case 'notelink': {
+      const link = source.getRawValue(row, column).trim();
+      return link ? `[[${link}]]` : '';
+    }
+    case 'multiselect':
+      return source.getRawValue(row, column).split(',').map(item => item.trim()).filter(item => item !== '').join(', ');
+    default:
+      return source.getDisplayValue(row, column);
+  }
+}
+
+function toTableLine(cells: string[]): string {
+  return `| ${cells.map(escapeCell).join(' | ')} |`;
+}
+
+/** Keeps a value inside its cell: pipes would end it and line breaks would end the row */
+function escapeCell(text: string): string {
+  return text.trim().replace(/\|/g, '\\|').replace(/\r\n|\r|\n/g, '<br>');
+}
+
+/**
+ * The table as it is kept in sync in .table.md files: all rows in stored order, with the columns
+ * the first (default) view shows, so columns hidden there stay out of the note.
+ * Built from the table's own data only, so it comes out the same whichever pane or plugin code saves the file:
+ * relation and rollup columns, which show values from other tables, are left out.
+ */
+export function getSyncedTableSource(app: App, data: TableData): ExportSource {
+  const dateRenderer = new DateRenderer();
+  const getRawValue = (row: CellData[], column: ColumnDef) => column.type === 'formula'
+    ? formulaValueToCellString(computeFormula(data, row, column).value)
+    : row.find(cell => cell.column === column.id)?.value || '';
+
+  const hidden = data.views[0]?.hiddenColumns || [];
+  return {
+    columns: data.columns.filter(col => !hidden.includes(col.id) && col.type !== 'relation' && col.type !== 'rollup'),
+    rows: data.rows,
+    getRawValue: getRawValue,
+    getDisplayValue: (row, column) => {
+      switch (column.type) {
+        case 'formula': {
+          const result = computeFormula(data, row, column);
+          return result.error ? FORMULA_ERROR_DISPLAY : formulaValueToDisplay(result.value);
+        }
+        case 'number':
+          return formatNumber(getRawValue(row, column), column.typeOptions as NumberTypeOptions | undefined);
+        case 'date':
+          return dateRenderer.getDisplayValue(app, getRawValue(row, column), column);
+        default:
+          return getRawValue(row, column);
+      }
+    },
+  };
+}
+
+// --- Parsing ---
+
+// The row under the header: cells of dashes with optional alignment colons (| :--- | ---: |)
+const DELIMITER_ROW = /^\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?$/;
+
+/** The first and last line (0-based, inclusive) of the pipe table that contains the given line, or null */
+export function findPipeTable(lines: string[], line: number): { from: number; to: number } | null {
+  const isTableLine = (index: number) => index >= 0 && index < lines.length && splitPipeRow(lines[index]) !== null;
+  if (!isTableLine(line)) return null;
+  let from = line;
+  let to = line;
+  while (isTableLine(from - 1)) from--;
+  while (isTableLine(to + 1)) to++;
+  // A table starts with a header and the delimiter row; anything else with pipes is just text
+  if (to === from || !DELIMITER_ROW.test(lines[from + 1].trim())) return null;
+  return { from: from, to: to };
+}
+
+/**
+ * Parses the lines of a pipe table into records (header first, delimiter row left out), in the form
+ * the CSV import expects. Escaped pipes (\|, as in [[Note\|alias]]) are unescaped and <br> becomes a line break.
+ * @param firstLine Line number of the table's first line, used for the records' lines
+ */
+export function parsePipeTable(lines: string[], firstLine: number = 1): CsvParseResult {
+  const records: CsvRecord[] = [];
+  lines.forEach((line, index) => {
+    if (index === 1) return; // Delimiter row
+    const fields = splitPipeRow(line);
+    if (fields) records.push({ fields: fields, line: firstLine + index });
+  });
+  return { records: records, delimiter: '|', unterminatedQuote: false };
+}
+
+/** Splits a table row into its cells, or returns null if the line has no unescaped pipe */
+function splitPipeRow(line: string): string[] | null {
+  const text = line.trim();
+  const cells: string[] = [];
+  let cell = '';
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\\' && text[i + 1] === '|') {
+      cell += '|';
+      i++;
+    } else if (text[i] === '|') {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += text[i];
+    }
+  }
+  cells.push(cell);
+  if (cells.length === 1) return null;
+
+  // Leading and trailing pipes are optional
+  if (text.startsWith('|')) cells.shift();
+  if (text.endsWith('|') && !text.endsWith('\\|') && cells.length > 1) cells.pop();
+  return cells.map(value => value.trim().replace(/<br\s*\/?>/gi, '\n'));
+}
@@ -0,0 +1,56 @@
+// src/modals/ConflictModal.ts
+
+import { App, Modal } from 'obsidian';
+
+export type ConflictChoice = 'reload' | 'keep' | null; // null = dismissed without choosing
+
+/**
+ * Shown when a table file changes on disk while the view still has unsaved edits.
+ * The user either reloads the file (dropping their edits) or keeps their version (overwriting the file).
+ */
+export class ConflictModal extends Modal {
+  private choice: ConflictChoice = null;
+
+  constructor(
+    app: App,
+    private fileName: string,
+    private onChoice: (choice: ConflictChoice) => void
+  ) {
+    super(app);
+  }
+
+  onOpen() {
+    this.titleEl.setText('Table changed on disk');
+    this.contentEl.createEl('p', {
+      text: `"${this.fileName}" was changed outside this view (sync, another pane or an editor) while you had unsaved edits.`
+    });
+    this.contentEl.createEl('p', {
+      text: 'Reload to see the new version and discard your edits, or keep your version and overwrite the file.',
+      cls: 'json-table-modal-hint'
+    });
+
+    const buttons = this.contentEl.createDiv({ cls: 'json-table-modal-buttons' });
+    const reloadButton = buttons.createEl('button', {
+      text: 'Reload from disk',
+      cls: 'json-table-btn json-table-btn--standard'
+    });
+    reloadButton.addEventListener('click', () => {
+      this.choice = 'reload';
+      this.close();
+    });
+
+    const keepButton = buttons.createEl('button', {
+      text: 'Keep my changes',
+      cls: 'json-table-btn json-table-btn--standard mod-warning'
+    });
+    keepButton.addEventListener('click', () => {
+      this.choice = 'keep';
+      this.close();
+    });
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    this.onChoice(this.choice);
+  }
+}
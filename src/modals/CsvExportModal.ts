@@ -0,0 +1,76 @@
+// src/modals/CsvExportModal.ts
+
+import { App, Modal } from 'obsidian';
+import { ExportOptions } from '../csv/csvExport';
+
+/** Where the exported text goes */
+export type ExportDestination = 'file' | 'clipboard';
+
+/**
+ * Asks what to export (the whole table or the active view), in which form (stored or displayed values)
+ * and format (CSV or TSV), and whether to save it as a file or copy it.
+ */
+export class CsvExportModal extends Modal {
+  private options: ExportOptions = { scope: 'view', values: 'display', delimiter: ',' };
+
+  constructor(
+    app: App,
+    private tableName: string,
+    private viewName: string,
+    private onExport: (options: ExportOptions, destination: ExportDestination) => void
+  ) {
+    super(app);
+  }
+
+  onOpen() {
+    this.titleEl.setText(`Export ${this.tableName}`);
+    const content = this.contentEl.createDiv({ cls: 'json-table-export-options' });
+
+    this.addSelect(content, 'Rows and columns', [
+      { value: 'view', text: `View "${this.viewName}" (filtered, sorted, visible columns)` },
+      { value: 'table', text: 'Whole table (all rows and columns)' },
+    ], this.options.scope, value => { this.options.scope = value as ExportOptions['scope']; });
+
+    this.addSelect(content, 'Values', [
+      { value: 'display', text: 'As displayed (formatted dates, note names)' },
+      { value: 'raw', text: 'As stored (timestamps, link paths)' },
+    ], this.options.values, value => { this.options.values = value as ExportOptions['values']; });
+
+    this.addSelect(content, 'Format', [
+      { value: ',', text: 'CSV (comma-separated)' },
+      { value: '\t', text: 'TSV (tab-separated)' },
+    ], this.options.delimiter, value => { this.options.delimiter = value as ExportOptions['delimiter']; });
+
+    // --- Buttons ---
+    const buttons = this.contentEl.createDiv({ cls: 'json-table-modal-buttons' });
+    const copyButton = buttons.createEl('button', { text: 'Copy to clipboard', cls: 'json-table-btn json-table-btn--standard' });
+    copyButton.addEventListener('click', () => this.finish('clipboard'));
+    const saveButton = buttons.createEl('button', { text: 'Save as file', cls: 'json-table-btn json-table-btn--standard mod-cta' });
+    saveButton.addEventListener('click', () => this.finish('file'));
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private finish(destination: ExportDestination) {
+    this.close();
+    this.onExport(this.options, destination);
+  }
+
+  private addSelect(
+    container: HTMLElement,
+    label: string,
+    choices: { value: string; text: string }[],
+    current: string,
+    onChange: (value: string) => void
+  ) {
+    container.createEl('label', { cls: 'json-table-popup-label', text: label });
+    const select = container.createEl('select', { cls: 'json-table-popup-select' });
+    choices.forEach(choice => {
+      const option = select.createEl('option', { text: choice.text, value: choice.value });
+      if (choice.value === current) option.selected = true;
+    });
+    select.addEventListener('change', () => onChange(select.value));
+  }
+}
@@ -0,0 +1,171 @@
+// src/modals/CsvImportModal.ts
+
+import { App, Modal } from 'obsidian';
+import { format } from 'date-fns';
+import {
+  CsvImportData,
+  IMPORT_COLUMN_TYPES,
+  ImportColumn,
+  ImportColumnType,
+  convertValue,
+  detectColumnType
+} from '../csv/csvImport';
+
+// Rows shown in the preview
+export const PREVIEW_ROWS = 5;
+// Skipped rows listed individually before summarising the rest
+const MAX_LISTED_SKIPS = 10;
+
+const DELIMITER_NAMES: Record<string, string> = {
+  ',': 'Comma',
+  '\t': 'Tab',
+  ';': 'Semicolon',
+  '|': 'Pipe',
+};
+
+/**
+ * Previews a parsed CSV/TSV file before it is imported.
+ * Each column can be renamed, given a type (suggested from its values) or left out,
+ * and rows that can't be imported are listed with the reason.
+ */
+export class CsvImportModal extends Modal {
+  private columns: ImportColumn[];
+  private previewBody: HTMLTableSectionElement | null = null;
+
+  constructor(
+    app: App,
+    private fileName: string,
+    private importData: CsvImportData,
+    private onImport: (columns: ImportColumn[]) => void
+  ) {
+    super(app);
+    this.columns = importData.headers.map((name, index) => ({
+      sourceIndex: index,
+      name: name,
+      type: detectColumnType(importData.rows.map(row => row[index]))
+    }));
+  }
+
+  onOpen() {
+    this.modalEl.addClass('json-table-import-modal');
+    this.titleEl.setText(`Import ${this.fileName}`);
+    const { rows, headers } = this.importData;
+
+    // --- Summary ---
+    this.contentEl.createEl('p', { text: describeImport(this.importData), cls: 'json-table-modal-hint' });
+    renderImportProblems(this.contentEl, this.importData);
+
+    // --- Column Mapping & Preview ---
+    const tableWrapper = this.contentEl.createDiv({ cls: 'json-table-import-preview' });
+    const table = tableWrapper.createEl('table');
+    const mappingRow = table.createEl('thead').createEl('tr');
+    this.columns.forEach(column => this.renderColumnMapping(mappingRow.createEl('th'), column));
+    this.previewBody = table.createEl('tbody');
+    this.renderPreviewRows();
+    if (rows.length > PREVIEW_ROWS) {
+      this.contentEl.createDiv({ cls: 'json-table-modal-hint', text: `Showing the first ${PREVIEW_ROWS} rows.` });
+    }
+
+    // --- Buttons ---
+    const buttons = this.contentEl.createDiv({ cls: 'json-table-modal-buttons' });
+    const cancelButton = buttons.createEl('button', { text: 'Cancel', cls: 'json-table-btn json-table-btn--standard' });
+    cancelButton.addEventListener('click', () => this.close());
+    const importButton = buttons.createEl('button', { text: 'Import', cls: 'json-table-btn json-table-btn--standard mod-cta' });
+    importButton.disabled = headers.length === 0;
+    importButton.addEventListener('click', () => {
+      if (this.columns.every(column => column.type === 'skip')) return;
+      this.close();
+      this.onImport(this.columns);
+    });
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  /** Name input and type select heading one column of the preview */
+  private renderColumnMapping(th: HTMLElement, column: ImportColumn) {
+    const nameInput = th.createEl('input', { type: 'text', cls: 'json-table-input', value: column.name });
+    nameInput.addEventListener('input', () => { column.name = nameInput.value; });
+
+    const typeSelect = th.createEl('select', { cls: 'json-table-popup-select' });
+    IMPORT_COLUMN_TYPES.forEach(type => {
+      const option = typeSelect.createEl('option', { text: type.label, value: type.value });
+      if (type.value === column.type) option.selected = true;
+    });
+    const skipOption = typeSelect.createEl('option', { text: "Don't import", value: 'skip' });
+    if (column.type === 'skip') skipOption.selected = true;
+
+    typeSelect.addEventListener('change', () => {
+      column.type = typeSelect.value as ImportColumnType | 'skip';
+      th.toggleClass('is-skipped', column.type === 'skip');
+      nameInput.disabled = column.type === 'skip';
+      this.renderPreviewRows();
+    });
+  }
+
+  /** Shows the first rows as they will be imported with the chosen types */
+  private renderPreviewRows() {
+    const tbody = this.previewBody;
+    if (!tbody) return;
+    tbody.empty();
+    this.importData.rows.slice(0, PREVIEW_ROWS).forEach(fields => {
+      const tr = tbody.createEl('tr');
+      this.columns.forEach(column => {
+        const td = tr.createEl('td');
+        if (column.type === 'skip') {
+          td.addClass('is-skipped');
+          td.setText(fields[column.sourceIndex]);
+          return;
+        }
+        const raw = fields[column.sourceIndex];
+        const text = formatPreviewValue(convertValue(raw, column.type), column.type);
+        td.setText(text);
+        // Values the type can't hold are dropped; show the original so it isn't a surprise
+        if (text === '' && raw.trim() !== '') {
+          td.addClass('is-invalid');
+          td.setText(raw);
+          td.setAttr('title', `Not a valid ${column.type}; will be left empty`);
+        }
+      });
+    });
+  }
+}
+
+/** One line describing the parsed file: its size and separator */
+export function describeImport(importData: CsvImportData): string {
+  const { rows, headers, delimiter } = importData;
+  return `${rows.length} ${rows.length === 1 ? 'row' : 'rows'}, ${headers.length} ${headers.length === 1 ? 'column' : 'columns'} `
+    + `(${(DELIMITER_NAMES[delimiter] || `"${delimiter}"`).toLowerCase()}-separated). The first row is used for column names.`;
+}
+
+/** Lists rows that won't be imported (and why) and other problems with the file */
+export function renderImportProblems(containerEl: HTMLElement, importData: CsvImportData) {
+  const skipLines = importData.skipped.map(skip => `Line ${skip.line}: ${skip.reason}`);
+  const warnings = importData.warnings;
+  if (skipLines.length === 0 && warnings.length === 0) return;
+  const problems = containerEl.createDiv({ cls: 'json-table-import-problems' });
+  warnings.forEach(warning => problems.createDiv({ text: warning }));
+  if (skipLines.length === 0) return;
+
+  problems.createDiv({ text: `${skipLines.length} ${skipLines.length === 1 ? 'row' : 'rows'} will be skipped:` });
+  const list = problems.createEl('ul');
+  skipLines.slice(0, MAX_LISTED_SKIPS).forEach(line => list.createEl('li', { text: line }));
+  if (skipLines.length > MAX_LISTED_SKIPS) {
+    list.createEl('li', { text: `…and ${skipLines.length - MAX_LISTED_SKIPS} more` });
+  }
+}
+
+/** Formats a converted value for the preview table */
+export function formatPreviewValue(value: string, type: ImportColumnType): string {
+  switch (type) {
+    case 'checkbox':
+      return value === 'true' ? '✓' : '–';
+    case 'date':
+      return value ? format(new Date(parseInt(value, 10)), 'yyyy/MM/dd') : '';
+    case 'multiselect':
+      return value.split(',').join(', ');
+    default:
+      return value;
+  }
+}
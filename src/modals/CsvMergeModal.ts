@@ -0,0 +1,183 @@
+// src/modals/CsvMergeModal.ts
+
+import { App, Modal } from 'obsidian';
+import { ColumnDef } from '../types';
+import {
+  ColumnMapping,
+  CsvImportData,
+  MergeOptions,
+  convertValue,
+  getImportTypeForColumn,
+  matchColumnsByName
+} from '../csv/csvImport';
+import { PREVIEW_ROWS, describeImport, formatPreviewValue, renderImportProblems } from './CsvImportModal';
+
+/**
+ * Previews importing a parsed CSV/TSV file into an existing table.
+ * Each CSV column is mapped to a table column (matched by name to start with) or left out,
+ * and rows can either all be added or update the existing rows with the same key.
+ */
+export class CsvMergeModal extends Modal {
+  private mappings: ColumnMapping[];
+  private keyColumnId: string | null = null;
+  private overwriteWithBlanks = false;
+  private previewBody: HTMLTableSectionElement | null = null;
+  private keySelect: HTMLSelectElement | null = null;
+  private blanksCheckbox: HTMLInputElement | null = null;
+  private importButton: HTMLButtonElement | null = null;
+
+  constructor(
+    app: App,
+    private fileName: string,
+    private importData: CsvImportData,
+    private columns: ColumnDef[], // The table's columns
+    private onImport: (mappings: ColumnMapping[], options: MergeOptions) => void
+  ) {
+    super(app);
+    this.mappings = matchColumnsByName(importData.headers, columns);
+  }
+
+  onOpen() {
+    this.modalEl.addClass('json-table-import-modal');
+    this.titleEl.setText(`Import ${this.fileName} into this table`);
+    const { rows, headers } = this.importData;
+
+    // --- Summary ---
+    const matched = this.mappings.filter(mapping => mapping.columnId !== null).length;
+    this.contentEl.createEl('p', {
+      text: `${describeImport(this.importData)} ${matched} of ${headers.length} match a column of this table by name.`,
+      cls: 'json-table-modal-hint'
+    });
+    renderImportProblems(this.contentEl, this.importData);
+
+    // --- Add or Update ---
+    const modeRow = this.contentEl.createDiv({ cls: 'json-table-import-mode' });
+    modeRow.createEl('label', { cls: 'json-table-popup-label', text: 'Rows with the same' });
+    this.keySelect = modeRow.createEl('select', { cls: 'json-table-popup-select' });
+    modeRow.createSpan({ cls: 'json-table-modal-hint', text: 'as an existing row update that row; other rows are added.' });
+    this.keySelect.addEventListener('change', () => {
+      this.keyColumnId = this.keySelect?.value || null;
+      this.updateBlanksOption();
+    });
+    this.renderKeyOptions();
+
+    const blanksLabel = this.contentEl.createEl('label', { cls: 'json-table-import-blanks' });
+    this.blanksCheckbox = blanksLabel.createEl('input', { type: 'checkbox' });
+    blanksLabel.appendText(' Clear cells of updated rows where the file has an empty value');
+    this.blanksCheckbox.addEventListener('change', () => {
+      this.overwriteWithBlanks = !!this.blanksCheckbox?.checked;
+    });
+    this.updateBlanksOption();
+
+    // --- Column Mapping & Preview ---
+    const tableWrapper = this.contentEl.createDiv({ cls: 'json-table-import-preview' });
+    const table = tableWrapper.createEl('table');
+    const mappingRow = table.createEl('thead').createEl('tr');
+    this.mappings.forEach(mapping => this.renderColumnMapping(mappingRow.createEl('th'), mapping));
+    this.previewBody = table.createEl('tbody');
+    this.renderPreviewRows();
+    if (rows.length > PREVIEW_ROWS) {
+      this.contentEl.createDiv({ cls: 'json-table-modal-hint', text: `Showing the first ${PREVIEW_ROWS} rows.` });
+    }
+
+    // --- Buttons ---
+    const buttons = this.contentEl.createDiv({ cls: 'json-table-modal-buttons' });
+    const cancelButton = buttons.createEl('button', { text: 'Cancel', cls: 'json-table-btn json-table-btn--standard' });
+    cancelButton.addEventListener('click', () => this.close());
+    this.importButton = buttons.createEl('button', { text: 'Import', cls: 'json-table-btn json-table-btn--standard mod-cta' });
+    this.importButton.addEventListener('click', () => {
+      if (!this.hasMappedColumns()) return;
+      this.close();
+      this.onImport(this.mappings, { keyColumnId: this.keyColumnId, overwriteWithBlanks: this.overwriteWithBlanks });
+    });
+    this.updateImportButton();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private hasMappedColumns(): boolean {
+    return this.mappings.some(mapping => mapping.columnId !== null);
+  }
+
+  private updateImportButton() {
+    if (this.importButton) this.importButton.disabled = !this.hasMappedColumns();
+  }
+
+  /** Blank handling only matters when rows are updated */
+  private updateBlanksOption() {
+    if (this.blanksCheckbox) this.blanksCheckbox.disabled = this.keyColumnId === null;
+  }
+
+  /** Key choices are the columns something is mapped to; the key is cleared if its column is unmapped */
+  private renderKeyOptions() {
+    const keySelect = this.keySelect;
+    if (!keySelect) return;
+    keySelect.empty();
+    keySelect.createEl('option', { text: "(don't update, add every row)", value: '' });
+    const mappedIds = this.mappings.map(mapping => mapping.columnId);
+    if (this.keyColumnId && !mappedIds.includes(this.keyColumnId)) {
+      this.keyColumnId = null;
+      this.updateBlanksOption();
+    }
+    this.columns
+      .filter(col => mappedIds.includes(col.id))
+      .forEach(col => {
+        const option = keySelect.createEl('option', { text: col.name, value: col.id });
+        if (col.id === this.keyColumnId) option.selected = true;
+      });
+  }
+
+  /** CSV column name and the table column it goes into */
+  private renderColumnMapping(th: HTMLElement, mapping: ColumnMapping) {
+    th.createDiv({ cls: 'json-table-import-source', text: this.importData.headers[mapping.sourceIndex] });
+    th.toggleClass('is-skipped', mapping.columnId === null);
+
+    const columnSelect = th.createEl('select', { cls: 'json-table-popup-select' });
+    columnSelect.createEl('option', { text: "Don't import", value: '' });
+    this.columns
+      .filter(col => getImportTypeForColumn(col) !== null)
+      .forEach(col => {
+        const option = columnSelect.createEl('option', { text: col.name, value: col.id });
+        if (col.id === mapping.columnId) option.selected = true;
+      });
+
+    columnSelect.addEventListener('change', () => {
+      mapping.columnId = columnSelect.value || null;
+      th.toggleClass('is-skipped', mapping.columnId === null);
+      this.renderKeyOptions();
+      this.renderPreviewRows();
+      this.updateImportButton();
+    });
+  }
+
+  /** Shows the first rows converted to the types of the columns they are mapped to */
+  private renderPreviewRows() {
+    const tbody = this.previewBody;
+    if (!tbody) return;
+    tbody.empty();
+    this.importData.rows.slice(0, PREVIEW_ROWS).forEach(fields => {
+      const tr = tbody.createEl('tr');
+      this.mappings.forEach(mapping => {
+        const td = tr.createEl('td');
+        const raw = fields[mapping.sourceIndex];
+        const column = this.columns.find(col => col.id === mapping.columnId);
+        const type = column ? getImportTypeForColumn(column) : null;
+        if (!column || !type) {
+          td.addClass('is-skipped');
+          td.setText(raw);
+          return;
+        }
+        const text = formatPreviewValue(convertValue(raw, type), type);
+        td.setText(text);
+        // Values the column can't hold are dropped; show the original so it isn't a surprise
+        if (text === '' && raw.trim() !== '') {
+          td.addClass('is-invalid');
+          td.setText(raw);
+          td.setAttr('title', `Not a valid ${type} for "${column.name}"; will be left empty`);
+        }
+      });
+    });
+  }
+}
@@ -0,0 +1,221 @@
+// src/relations/RelatedTables.ts
+
+import { App, TFile } from 'obsidian';
+import { CellData, ColumnDef, RelationTypeOptions, TableData, VIEW_TYPE_JSON_TABLE } from '../types';
+import { JsonTableView } from '../JsonTableView';
+import { getTableFileHandler } from '../fileHandlers/tableFiles';
+import { ensureRowId, getRowId, hasUnsavedRowIds } from '../rowIds';
+import { computeFormula, formulaValueToDisplay } from '../formula/FormulaEngine';
+
+/** Splits a relation cell value into row IDs */
+export function splitRowIds(value: string): string[] {
+  return value ? value.split(',').map(id => id.trim()).filter(Boolean) : [];
+}
+
+/** The text used for a row when another table links to it: the value of its first (primary) column */
+export function getRowTitle(data: TableData, row: CellData[]): string {
+  const primary = data.columns[0];
+  if (!primary) return 'Untitled';
+  const text = primary.type === 'formula'
+    ? formulaValueToDisplay(computeFormula(data, row, primary).value)
+    : row.find(cell => cell.column === primary.id)?.value || '';
+  return text || 'Untitled';
+}
+
+/** The table's name as shown in tab titles (file name without the .table.md / .table.json suffix) */
+export function getTableName(path: string): string {
+  return path.substring(path.lastIndexOf('/') + 1).replace(/\.(table\.json|table\.md)$/, '');
+}
+
+/**
+ * Reads and writes the other tables that relation columns point at.
+ * A table open in a pane is used live (that pane's data), so links see unsaved edits;
+ * other tables are read from disk and cached until the file changes.
+ */
+export class RelatedTables {
+  private cache = new Map<string, TableData>();
+  private loading = new Map<string, Promise<TableData | null>>();
+
+  constructor(private app: App) {}
+
+  /** The table's data if it is available without reading the file, otherwise null */
+  public get(path: string): TableData | null {
+    return this.getOpenView(path)?.data || this.cache.get(path) || null;
+  }
+
+  /** The table's data, reading the file if needed. Resolves to null if the file is missing or invalid. */
+  public load(path: string): Promise<TableData | null> {
+    const available = this.get(path);
+    if (available) return Promise.resolve(available);
+
+    let pending = this.loading.get(path);
+    if (!pending) {
+      pending = this.read(path).then(data => {
+        this.loading.delete(path);
+        if (data) this.cache.set(path, data);
+        return data;
+      });
+      this.loading.set(path, pending);
+    }
+    return pending;
+  }
+
+  /** Forgets the cached copy of a table, e.g. after its file changed */
+  public invalidate(path: string) {
+    this.cache.delete(path);
+  }
+
+  /**
+   * Changes another table and saves it.
+   * @param mutate Applies the change; returns false if nothing changed (skips the save).
+   * @returns Whether the table was changed.
+   */
+  public async update(path: string, mutate: (data: TableData) => boolean): Promise<boolean> {
+    const openView = this.getOpenView(path);
+    if (openView) return openView.applyRelatedChange(mutate);
+
+    const file = this.app.vault.getAbstractFileByPath(path);
+    const handler = file instanceof TFile ? getTableFileHandler(this.app, file) : null;
+    if (!(file instanceof TFile) || !handler) return false;
+
+    // The cached copy is current (it is dropped whenever the file changes) and holds the rows callers picked from
+    const data = this.cache.get(path) || await handler.read(file);
+    if (!mutate(data)) return false;
+    await handler.save(file, data);
+    this.cache.set(path, data);
+    return true;
+  }
+
+  /**
+   * Saves the table if some of its row IDs were only assigned when it was read.
+   * Call before storing links to its rows, so the IDs they use are the ones in its file.
+   */
+  public async saveUnsavedRowIds(path: string): Promise<void> {
+    try {
+      await this.update(path, data => hasUnsavedRowIds(data));
+    } catch (e) {
+      console.error(`Failed to save row IDs of ${path}:`, e);
+    }
+  }
+
+  /**
+   * Mirrors a change to a relation cell into the target table's reciprocal column.
+   * @param sourceRowId ID of the row whose cell changed
+   */
+  public async syncReciprocal(column: ColumnDef, sourceRowId: string, oldValue: string, newValue: string): Promise<void> {
+    const typeOpts = column.typeOptions as RelationTypeOptions | undefined;
+    if (!typeOpts?.targetTable || !typeOpts.reciprocalColumnId) return;
+    const reciprocalColumnId = typeOpts.reciprocalColumnId;
+
+    const oldIds = splitRowIds(oldValue);
+    const newIds = splitRowIds(newValue);
+    const added = newIds.filter(id => !oldIds.includes(id));
+    const removed = oldIds.filter(id => !newIds.includes(id));
+    if (added.length === 0 && removed.length === 0) return;
+
+    try {
+      await this.update(typeOpts.targetTable, data => {
+        if (!data.columns.some(col => col.id === reciprocalColumnId)) return false; // Reciprocal column was deleted
+        let changed = false;
+        data.rows.forEach(row => {
+          const rowId = getRowId(row);
+          if (!rowId || (!added.includes(rowId) && !removed.includes(rowId))) return;
+          let cell = row.find(c => c.column === reciprocalColumnId);
+          if (!cell) {
+            cell = { column: reciprocalColumnId, value: '' };
+            row.push(cell);
+          }
+          const ids = splitRowIds(cell.value);
+          const index = ids.indexOf(sourceRowId);
+          if (added.includes(rowId) && index === -1) ids.push(sourceRowId);
+          else if (removed.includes(rowId) && index !== -1) ids.splice(index, 1);
+          else return;
+          cell.value = ids.join(',');
+          changed = true;
+        });
+        return changed;
+      });
+    } catch (e) {
+      console.error(`Failed to update reciprocal relation in ${typeOpts.targetTable}:`, e);
+    }
+  }
+
+  /**
+   * Adds a relation column to the target table that points back at the source table,
+   * filled from the links that already exist, and connects the two columns.
+   * Sets the column's reciprocalColumnId; the caller saves the source table.
+   * @returns Whether the reciprocal column was created.
+   */
+  public async createReciprocalColumn(sourcePath: string, sourceData: TableData, column: ColumnDef): Promise<boolean> {
+    const typeOpts = column.typeOptions as RelationTypeOptions | undefined;
+    if (!typeOpts?.targetTable) return false;
+
+    // Invert the existing links: target row ID -> source row IDs
+    const backLinks = new Map<string, string[]>();
+    sourceData.rows.forEach(row => {
+      const targetIds = splitRowIds(row.find(cell => cell.column === column.id)?.value || '');
+      if (targetIds.length === 0) return;
+      const sourceRowId = ensureRowId(row);
+      targetIds.forEach(targetId => backLinks.set(targetId, (backLinks.get(targetId) || []).concat(sourceRowId)));
+    });
+
+    const reciprocalId = 'col_' + Date.now();
+    const created = await this.update(typeOpts.targetTable, data => {
+      const baseName = getTableName(sourcePath);
+      let name = baseName;
+      for (let n = 2; data.columns.some(col => col.name === name); n++) name = `${baseName} ${n}`;
+
+      data.columns.push({
+        id: reciprocalId,
+        name: name,
+        type: 'relation',
+        width: 150,
+        typeOptions: { targetTable: sourcePath, reciprocalColumnId: column.id }
+      });
+      data.rows.forEach(row => {
+        const rowId = getRowId(row);
+        row.push({ column: reciprocalId, value: rowId ? (backLinks.get(rowId) || []).join(',') : '' });
+      });
+      return true;
+    });
+    if (created) typeOpts.reciprocalColumnId = reciprocalId;
+    return created;
+  }
+
+  /** Stops syncing a relation column with its reciprocal; both columns keep their links */
+  public async unlinkReciprocal(column: ColumnDef): Promise<void> {
+    const typeOpts = column.typeOptions as RelationTypeOptions | undefined;
+    if (!typeOpts?.targetTable || !typeOpts.reciprocalColumnId) return;
+    const reciprocalColumnId = typeOpts.reciprocalColumnId;
+    delete typeOpts.reciprocalColumnId;
+
+    await this.update(typeOpts.targetTable, data => {
+      const reciprocal = data.columns.find(col => col.id === reciprocalColumnId);
+      const reciprocalOpts = reciprocal?.typeOptions as RelationTypeOptions | undefined;
+      if (!reciprocalOpts?.reciprocalColumnId) return false;
+      delete reciprocalOpts.reciprocalColumnId;
+      return true;
+    });
+  }
+
+  private async read(path: string): Promise<TableData | null> {
+    const file = this.app.vault.getAbstractFileByPath(path);
+    const handler = file instanceof TFile ? getTableFileHandler(this.app, file) : null;
+    if (!(file instanceof TFile) || !handler) return null;
+    try {
+      return await handler.read(file);
+    } catch (e) {
+      console.warn(`Could not read related table ${path}:`, e);
+      return null;
+    }
+  }
+
+  /** A pane showing the table, if any */
+  private getOpenView(path: string): JsonTableView | null {
+    for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_JSON_TABLE)) {
+      const view = leaf.view;
+      if (view instanceof JsonTableView && view.getFilePath() === path && view.data) return view;
+    }
+    return null;
+  }
+}
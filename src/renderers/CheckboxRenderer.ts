@@ -31,4 +31,9 @@ export class CheckboxRenderer implements ICellRenderer {
       onChange(input.checked.toString());
     });
   }
+
+  /** A checkbox shows no text, so there is nothing to search or highlight */
+  public getDisplayValue(app: App, value: string, column: ColumnDef): string {
+    return '';
+  }
 }
\ No newline at end of file
@@ -70,39 +70,65 @@ export class DateRenderer implements ICellRenderer {
     });
 
     // --- Flatpickr Integration ---
-    try {
-        // Attach flatpickr directly to the date wrapper
-        const fpInstance = flatpickr(dateWrapper, {
-          clickOpens: true,
-          allowInput: false,
-          dateFormat: 'U', // Internal format is Unix timestamp (seconds)
-          defaultDate: currentDate || undefined, // Use parsed date or undefined
-          appendTo: document.body,
+    // Created on first click instead of per cell, so long tables don't build a picker for every date
+    dateWrapper.addEventListener('click', () => {
+      if (flatpickrInstances.has(container)) return; // Already open
+      try {
+          // Attach flatpickr directly to the date wrapper
+          const fpInstance = flatpickr(dateWrapper, {
+            clickOpens: true,
+            allowInput: false,
+            dateFormat: 'U', // Internal format is Unix timestamp (seconds)
+            defaultDate: currentDate || undefined, // Use parsed date or undefined
+            appendTo: document.body,
 
-          onChange: (selectedDates) => {
-              if (selectedDates.length > 0) {
-                  const selectedDate = selectedDates[0];
-                  const newTimestampMs = selectedDate.getTime();
-                  // --- Read format again for immediate update ---
-                  const updatedFormatString = this.formatMap[(column.typeOptions as DateTypeOptions)?.dateFormat || 'YYYY/MM/DD'];
-                  // --- End Read ---
-                  dateSpan.setText(format(selectedDate, updatedFormatString));
-                  onChange(newTimestampMs.toString()); // Save as milliseconds string
-              } else {
-                  // Handle clearing the date
-                  dateSpan.setText('');
-                  onChange('');
-              }
-          },
-        });
+            onChange: (selectedDates) => {
+                if (selectedDates.length > 0) {
+                    const selectedDate = selectedDates[0];
+                    const newTimestampMs = selectedDate.getTime();
+                    currentDate = selectedDate;
+                    // --- Read format again for immediate update ---
+                    const updatedFormatString = this.formatMap[(column.typeOptions as DateTypeOptions)?.dateFormat || 'YYYY/MM/DD'];
+                    // --- End Read ---
+                    dateSpan.setText(format(selectedDate, updatedFormatString));
+                    onChange(newTimestampMs.toString()); // Save as milliseconds string
+                } else {
+                    // Handle clearing the date
+                    currentDate = null;
+                    dateSpan.setText('');
+                    onChange('');
+                }
+            },
 
-        // Store the new instance associated with the TD
-        flatpickrInstances.set(container, fpInstance);
+            // Destroy on close so the calendar element doesn't linger in document.body
+            onClose: () => {
+                setTimeout(() => {
+                    fpInstance.destroy();
+                    flatpickrInstances.delete(container);
+                }, 0);
+            },
+          });
 
-    } catch(err) {
-        console.error("Failed to initialize flatpickr:", err);
-        container.setText('Error initializing date picker');
-        return;
-    }
+          // Store the new instance associated with the TD
+          flatpickrInstances.set(container, fpInstance);
+          fpInstance.open();
+
+      } catch(err) {
+          console.error("Failed to initialize flatpickr:", err);
+          container.setText('Error initializing date picker');
+      }
+    });
   } // End render method
+
+  /** The date in the column's format, or '' when empty or not a timestamp */
+  public getDisplayValue(app: App, value: string, column: ColumnDef): string {
+    const timestamp = parseInt(value, 10);
+    if (isNaN(timestamp)) return '';
+    const currentFormat = (column.typeOptions as DateTypeOptions | undefined)?.dateFormat || 'YYYY/MM/DD';
+    try {
+      return format(new Date(timestamp), this.formatMap[currentFormat]);
+    } catch (e) {
+      return '';
+    }
+  }
 } // End DateRenderer class
\ No newline at end of file
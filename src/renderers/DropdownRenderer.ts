@@ -231,4 +231,8 @@ export class DropdownRenderer implements ICellRenderer {
 
     return popup;
   }
+
+  public getDisplayValue(app: App, value: string, column: ColumnDef): string {
+    return value;
+  }
 }
@@ -0,0 +1,27 @@
+// src/renderers/FormulaRenderer.ts
+import { App } from 'obsidian';
+import { ICellRenderer } from './ICellRenderer';
+import { ColumnDef } from '../types';
+import { FORMULA_ERROR_DISPLAY } from '../formula/FormulaEngine';
+
+/**
+ * Read-only cell for computed columns (formula and rollup).
+ * TableRenderer computes the value and passes the text to show.
+ */
+export class FormulaRenderer implements ICellRenderer {
+  public render(
+    app: App,
+    container: HTMLElement, // This is the <td>
+    value: string, // Computed display text, or FORMULA_ERROR_DISPLAY
+    column: ColumnDef,
+    onChange: (newValue: string) => void
+  ): void {
+    container.addClass('json-table-formula-cell');
+    const span = container.createSpan({ cls: 'json-table-formula-value', text: value });
+    if (value === FORMULA_ERROR_DISPLAY) span.addClass('is-error');
+  }
+
+  public getDisplayValue(app: App, value: string, column: ColumnDef): string {
+    return value;
+  }
+}
@@ -19,4 +19,13 @@ export interface ICellRenderer {
     column: ColumnDef,
     onChange: (newValue: string) => void
   ): void;
+
+  /**
+   * Returns the text a user sees for a value (formatted date, note basename, etc.).
+   * Used for search and anywhere the value is shown outside the cell.
+   * @param app Obsidian App object, needed to resolve Note Links.
+   * @param value The stored value of the cell.
+   * @param column The column definition (for formats, options, etc.).
+   */
+  getDisplayValue(app: App, value: string, column: ColumnDef): string;
 }
\ No newline at end of file
@@ -256,4 +256,9 @@ export class MultiSelectRenderer implements ICellRenderer {
 
     return popup;
   }
+
+  /** Selected options as a readable list, e.g. "Red, Blue" */
+  public getDisplayValue(app: App, value: string, column: ColumnDef): string {
+    return this.getValues(value).join(', ');
+  }
 }
@@ -171,4 +171,10 @@ export class NoteLinkRenderer implements ICellRenderer {
       }, 100);
     });
   } // End renderEdit method
+
+  /** The note's basename when the link resolves, otherwise the raw text (as shown in the cell) */
+  public getDisplayValue(app: App, value: string, column: ColumnDef): string {
+    const file = value ? app.metadataCache.getFirstLinkpathDest(value, "") : null;
+    return file ? file.basename : value;
+  }
 } // End NoteLinkRenderer class
\ No newline at end of file
@@ -0,0 +1,98 @@
+// src/renderers/NumberRenderer.ts
+import { App } from 'obsidian';
+import { ICellRenderer } from './ICellRenderer';
+import { ColumnDef, NumberTypeOptions } from '../types';
+
+/**
+ * Parses user input or a stored value into a number.
+ * Accepts thousands separators, currency symbols and a trailing '%'.
+ * @returns The number, or null if the text is empty or not numeric.
+ */
+export function parseNumber(text: string): number | null {
+  const cleaned = (text || '').replace(/[^0-9eE.+-]/g, '');
+  if (!cleaned) return null;
+  const num = Number(cleaned);
+  return isFinite(num) ? num : null;
+}
+
+/** Formats a stored number value for display according to the column's options */
+export function formatNumber(value: string, typeOptions: NumberTypeOptions | undefined): string {
+  const num = parseNumber(value);
+  if (num === null) return value || '';
+
+  const opts = typeOptions || {};
+  const hasFixedDecimals = opts.decimals !== undefined && opts.decimals !== null;
+  const formatted = num.toLocaleString(undefined, {
+    minimumFractionDigits: hasFixedDecimals ? opts.decimals : 0,
+    maximumFractionDigits: hasFixedDecimals ? opts.decimals : 20,
+    useGrouping: !!opts.thousandsSeparator
+  });
+
+  switch (opts.numberFormat) {
+    case 'currency':
+      // Keep the minus sign in front of the symbol: -$5 rather than $-5
+      return num < 0
+        ? `-${opts.currencySymbol ?? '$'}${formatted.replace('-', '')}`
+        : `${opts.currencySymbol ?? '$'}${formatted}`;
+    case 'percent':
+      return `${formatted}%`;
+    default:
+      return formatted;
+  }
+}
+
+export class NumberRenderer implements ICellRenderer {
+  public render(
+    app: App,
+    container: HTMLElement, // This is the <td>
+    value: string, // Stored as a plain number string, e.g. "1234.5"
+    column: ColumnDef,
+    onChange: (newValue: string) => void
+  ): void {
+    const typeOpts = column.typeOptions as NumberTypeOptions | undefined;
+
+    // Show the formatted value; switch to the raw number while editing
+    const input = container.createEl('input', {
+      type: 'text',
+      value: formatNumber(value, typeOpts),
+      cls: 'json-table-input json-table-number-input',
+      attr: { inputmode: 'decimal' }
+    });
+
+    input.addEventListener('focus', () => {
+      input.value = value;
+      input.select();
+    });
+
+    input.addEventListener('blur', () => {
+      const text = input.value.trim();
+      const num = parseNumber(text);
+      if (text && num === null) {
+        // Not a number: keep the previous value
+        input.value = formatNumber(value, typeOpts);
+        return;
+      }
+      const newValue = num === null ? '' : num.toString();
+      input.value = formatNumber(newValue, typeOpts);
+      if (newValue !== value) {
+        value = newValue;
+        onChange(newValue);
+      }
+    });
+
+    input.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        input.blur();
+      } else if (e.key === 'Escape') {
+        e.preventDefault();
+        input.value = value; // Discard the edit
+        input.blur();
+      }
+    });
+  }
+
+  public getDisplayValue(app: App, value: string, column: ColumnDef): string {
+    return formatNumber(value, column.typeOptions as NumberTypeOptions | undefined);
+  }
+}
@@ -0,0 +1,178 @@
+// src/renderers/RelationRenderer.ts
+import { App } from 'obsidian';
+import { ICellRenderer } from './ICellRenderer';
+import { ColumnDef, RelationTypeOptions, TableData } from '../types';
+import { RelatedTables, getRowTitle, splitRowIds } from '../relations/RelatedTables';
+import { getRowId } from '../rowIds';
+import { RowSuggest } from '../suggesters/RowSuggest';
+
+export class RelationRenderer implements ICellRenderer {
+
+  constructor(private relatedTables: RelatedTables) {}
+
+  public render(
+    app: App,
+    container: HTMLElement, // This is the <td>
+    value: string, // Comma-separated row IDs of the target table
+    column: ColumnDef,
+    onChange: (newValue: string) => void
+  ): void {
+    container.empty();
+    const wrapper = container.createDiv({ cls: 'json-table-relation' });
+
+    const targetPath = (column.typeOptions as RelationTypeOptions | undefined)?.targetTable;
+    if (!targetPath) {
+      wrapper.createSpan({ text: 'No table chosen', cls: 'json-table-dropdown-placeholder' });
+      return;
+    }
+
+    const targetData = this.relatedTables.get(targetPath);
+    if (!targetData) {
+      // Not loaded yet: read the table, then render again
+      wrapper.createSpan({ text: 'Loading…', cls: 'json-table-dropdown-placeholder' });
+      this.relatedTables.load(targetPath).then(loaded => {
+        if (!container.isConnected) return; // Cell was re-rendered meanwhile
+        if (loaded) {
+          this.render(app, container, value, column, onChange);
+        } else {
+          wrapper.empty();
+          wrapper.createSpan({ text: 'Table not found', cls: 'json-table-relation-chip is-missing' });
+        }
+      });
+      return;
+    }
+
+    this.renderDisplay(app, wrapper, targetPath, targetData, value, onChange);
+  }
+
+  /** Renders the linked rows as chips; clicking a chip opens the table, clicking elsewhere edits */
+  private renderDisplay(
+    app: App,
+    wrapper: HTMLElement,
+    targetPath: string,
+    targetData: TableData,
+    value: string,
+    onChange: (newValue: string) => void
+  ) {
+    wrapper.empty();
+    wrapper.removeClass('is-editing');
+    this.renderChips(wrapper, targetData, value, (chip) => {
+      chip.addEventListener('click', (e) => {
+        e.stopPropagation(); // Don't enter edit mode
+        app.workspace.openLinkText(targetPath, '', false);
+      });
+    });
+
+    wrapper.addEventListener('click', (e) => {
+      e.stopPropagation();
+      this.renderEdit(app, wrapper, targetPath, targetData, value, onChange);
+    });
+  }
+
+  /** Renders removable chips and an input that suggests rows of the target table */
+  private renderEdit(
+    app: App,
+    wrapper: HTMLElement,
+    targetPath: string,
+    targetData: TableData,
+    value: string,
+    onChange: (newValue: string) => void
+  ) {
+    // Clone wrapper to remove old listeners
+    const parent = wrapper.parentNode;
+    if (!parent) return;
+    const newWrapper = wrapper.cloneNode(false) as HTMLElement;
+    parent.replaceChild(newWrapper, wrapper);
+    newWrapper.addClass('is-editing');
+
+    const setValue = (newValue: string) => {
+      value = newValue;
+      onChange(newValue);
+      this.renderEdit(app, newWrapper, targetPath, targetData, newValue, onChange);
+    };
+
+    this.renderChips(newWrapper, targetData, value, (chip, rowId) => {
+      const removeBtn = chip.createSpan({ text: '×', cls: 'json-table-multiselect-tag-remove' });
+      removeBtn.addEventListener('mousedown', (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setValue(splitRowIds(value).filter(id => id !== rowId).join(','));
+      });
+    });
+
+    const input = newWrapper.createEl('input', {
+      type: 'text',
+      cls: 'json-table-input json-table-relation-input',
+      placeholder: 'Link a row…'
+    });
+
+    const suggester = new RowSuggest(
+      app,
+      input,
+      () => {
+        const linked = splitRowIds(value);
+        return targetData.rows
+          .filter(row => !linked.includes(getRowId(row) || ''))
+          .map(row => ({ row: row, title: getRowTitle(targetData, row) }));
+      },
+      (suggestion) => {
+        const rowId = getRowId(suggestion.row);
+        if (!rowId) return;
+        setValue(splitRowIds(value).concat(rowId).join(','));
+      }
+    );
+
+    const closeEdit = () => {
+      document.removeEventListener('click', clickOutside, true);
+      suggester.close();
+      if (newWrapper.isConnected) this.renderDisplay(app, newWrapper, targetPath, targetData, value, onChange);
+    };
+    const clickOutside = (e: MouseEvent) => {
+      const suggestionContainer = document.body.querySelector('.suggestion-container');
+      if (newWrapper.contains(e.target as Node) || suggestionContainer?.contains(e.target as Node)) return;
+      closeEdit();
+    };
+    input.addEventListener('keydown', (e) => {
+      const isSuggesterOpen = !!document.body.querySelector('.suggestion-container');
+      if (e.key === 'Escape' && !isSuggesterOpen) {
+        e.preventDefault();
+        closeEdit();
+      }
+    });
+
+    setTimeout(() => {
+      input.focus();
+      document.addEventListener('click', clickOutside, true);
+    }, 0);
+  }
+
+  /** Renders one chip per linked row; rows deleted from the target table show as "Deleted row" */
+  private renderChips(
+    wrapper: HTMLElement,
+    targetData: TableData,
+    value: string,
+    decorate: (chip: HTMLElement, rowId: string) => void
+  ) {
+    splitRowIds(value).forEach(rowId => {
+      const row = targetData.rows.find(r => getRowId(r) === rowId);
+      const chip = wrapper.createSpan({ cls: 'json-table-relation-chip' });
+      chip.createSpan({ text: row ? getRowTitle(targetData, row) : 'Deleted row' });
+      if (!row) chip.addClass('is-missing');
+      decorate(chip, rowId);
+    });
+  }
+
+  /** The linked rows' titles, or '' until the target table has been loaded */
+  public getDisplayValue(app: App, value: string, column: ColumnDef): string {
+    const targetPath = (column.typeOptions as RelationTypeOptions | undefined)?.targetTable;
+    const targetData = targetPath ? this.relatedTables.get(targetPath) : null;
+    if (!targetData) return '';
+    return splitRowIds(value)
+      .map(rowId => {
+        const row = targetData.rows.find(r => getRowId(r) === rowId);
+        return row ? getRowTitle(targetData, row) : '';
+      })
+      .filter(Boolean)
+      .join(', ');
+  }
+}
@@ -29,4 +29,8 @@ export class TextRenderer implements ICellRenderer {
       }
     });
   }
+
+  public getDisplayValue(app: App, value: string, column: ColumnDef): string {
+    return value;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,95 @@
+// src/rowIds.ts
+
+import { CellData, TableData } from './types';
+
+/**
+ * Reserved cell column holding a row's stable ID.
+ * It never matches a column definition, so it is stored with the row but never rendered.
+ * Every row has one: rows are given one in memory when a file is read (see assignRowIds),
+ * and new rows when they are created.
+ */
+export const ROW_ID_COLUMN = '_id';
+
+// Tables read with rows that were given IDs in memory, until they are saved
+const tablesWithUnsavedRowIds = new WeakSet<TableData>();
+
+// Rows created in one loop share a millisecond; the counter keeps their IDs apart
+let rowIdCounter = 0;
+
+/** Creates a new row ID, e.g. row_lq2x9k_1_a1b2 */
+export function createRowId(): string {
+  rowIdCounter++;
+  return 'row_' + Date.now().toString(36) + '_' + rowIdCounter.toString(36) + '_' + Math.random().toString(36).substring(2, 6);
+}
+
+/** The row's stable ID, or undefined if it has not been assigned one yet */
+export function getRowId(row: CellData[]): string | undefined {
+  return row.find(cell => cell.column === ROW_ID_COLUMN)?.value || undefined;
+}
+
+/**
+ * Returns the row's stable ID, assigning a new one if needed.
+ * Mutates the row; the caller is responsible for saving.
+ */
+export function ensureRowId(row: CellData[]): string {
+  const existing = getRowId(row);
+  if (existing) return existing;
+  const id = createRowId();
+  const cell = row.find(c => c.column === ROW_ID_COLUMN);
+  if (cell) cell.value = id;
+  else row.push({ column: ROW_ID_COLUMN, value: id });
+  return id;
+}
+
+/**
+ * Gives rows read from disk a unique ID: rows without one (older files, rows added outside the plugin)
+ * and every row after the first that shares an ID.
+ * The assigned IDs depend only on the rows' positions, so they come out the same on every read
+ * until the next save stores them. Mutates data.
+ * Position-based IDs change when rows are added or moved in the file, so a table whose IDs another table
+ * is about to store has to be saved first (see hasUnsavedRowIds).
+ */
+export function assignRowIds(data: TableData) {
+  const taken = new Set<string>();
+  const needIds: number[] = [];
+  data.rows.forEach((row, index) => {
+    const id = getRowId(row);
+    if (id && !taken.has(id)) taken.add(id);
+    else needIds.push(index);
+  });
+
+  needIds.forEach(index => {
+    let id = `row_${index}`;
+    for (let n = 2; taken.has(id); n++) id = `row_${index}_${n}`;
+    taken.add(id);
+    const row = data.rows[index];
+    const cell = row.find(c => c.column === ROW_ID_COLUMN);
+    if (cell) cell.value = id;
+    else row.push({ column: ROW_ID_COLUMN, value: id });
+  });
+  if (needIds.length > 0) markRowIdsUnsaved(data);
+}
+
+/** Whether some of the table's row IDs were assigned when it was read and are not in the file yet */
+export function hasUnsavedRowIds(data: TableData): boolean {
+  return tablesWithUnsavedRowIds.has(data);
+}
+
+/** Records that some of the table's row IDs are not in its file yet */
+export function markRowIdsUnsaved(data: TableData) {
+  tablesWithUnsavedRowIds.add(data);
+}
+
+/** Records that the table was saved, IDs included. Called by the file handlers. */
+export function markRowIdsSaved(data: TableData) {
+  tablesWithUnsavedRowIds.delete(data);
+}
+
+export function findRowById(data: TableData, id: string): CellData[] | undefined {
+  return data.rows.find(row => getRowId(row) === id);
+}
+
+/** The row's position in data.rows (the stored order), or -1 if no row has that ID */
+export function findRowIndexById(data: TableData, id: string): number {
+  return data.rows.findIndex(row => getRowId(row) === id);
+}
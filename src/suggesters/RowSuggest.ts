@@ -0,0 +1,38 @@
+// src/suggesters/RowSuggest.ts
+import { AbstractInputSuggest, App } from 'obsidian';
+import { CellData } from '../types';
+
+/** A row offered by RowSuggest, with the text it is shown and matched by */
+export interface RowSuggestion {
+  row: CellData[];
+  title: string;
+}
+
+/** Suggests rows of another table by their primary column, like FileSuggest does for notes */
+export class RowSuggest extends AbstractInputSuggest<RowSuggestion> {
+
+  constructor(
+    app: App,
+    inputEl: HTMLInputElement,
+    // Called on every keystroke so rows linked meanwhile drop out of the list
+    private getRows: () => RowSuggestion[],
+    private onSelectRow: (suggestion: RowSuggestion) => void
+  ) {
+    super(app, inputEl);
+  }
+
+  getSuggestions(query: string): RowSuggestion[] {
+    const lowerCaseQuery = query.toLowerCase();
+    return this.getRows().filter(suggestion => suggestion.title.toLowerCase().includes(lowerCaseQuery));
+  }
+
+  renderSuggestion(suggestion: RowSuggestion, el: HTMLElement): void {
+    el.setText(suggestion.title);
+  }
+
+  selectSuggestion(suggestion: RowSuggestion, evt: MouseEvent | KeyboardEvent): void {
+    this.setValue(''); // Ready for the next link
+    this.close();
+    this.onSelectRow(suggestion);
+  }
+}
@@ -9,13 +9,56 @@ export type FilterOperator =
   | 'isEmpty'
   | 'isNotEmpty'
   | 'equals' // Added for exact match
-  | 'notEqual'; // Added for exact non-match
+  | 'notEqual' // Added for exact non-match
+  // Numeric operators (number columns)
+  | 'greaterThan'
+  | 'lessThan'
+  | 'greaterOrEqual'
+  | 'lessOrEqual'
+  | 'between'
+  // Date operators (date columns); values are YYYY-MM-DD or a day count
+  | 'on'
+  | 'before'
+  | 'after'
+  | 'withinLastDays'
+  | 'isToday'
+  // Checkbox operators
+  | 'isChecked'
+  | 'isUnchecked'
+  // Option operators (dropdown and multiselect); value is a comma-separated list
+  | 'hasAnyOf'
+  | 'hasAllOf'
+  | 'hasNoneOf';
 
 export interface FilterRule {
   id: string; // Unique ID for the filter rule (e.g., filter_12345)
   columnId: string;
   operator: FilterOperator;
   value?: string; // Value to compare against (not needed for empty/notEmpty)
+  valueTo?: string; // Upper bound for 'between' (inclusive)
+}
+
+// How the items of a filter group combine
+export type FilterConjunction = 'and' | 'or';
+
+// A set of rules and nested groups joined by one conjunction
+export interface FilterGroup {
+  id: string; // Unique ID for the group (e.g., group_12345)
+  conjunction: FilterConjunction;
+  items: (FilterRule | FilterGroup)[];
+}
+
+/** Creates an empty filter group with a fresh ID */
+export function createFilterGroup(conjunction: FilterConjunction = 'and'): FilterGroup {
+  return {
+    id: 'group_' + Date.now() + '_' + Math.random().toString(36).substring(2, 6),
+    conjunction: conjunction,
+    items: []
+  };
+}
+
+export function isFilterGroup(item: FilterRule | FilterGroup): item is FilterGroup {
+  return Array.isArray((item as FilterGroup).items);
 }
 
 // --- View Definitions ---
@@ -24,12 +67,34 @@ export interface SortRule {
   direction: 'asc' | 'desc';
 }
 
+// How date columns are bucketed when grouping rows
+export type DateGroupInterval = 'day' | 'week' | 'month';
+
+export interface GroupRule {
+  columnId: string; // Dropdown, multi-select, checkbox, date or text column
+  dateInterval?: DateGroupInterval; // Date columns only (default 'day')
+}
+
 export interface ViewDef {
   id: string; // Unique ID for the view (e.g., "default_12345")
   name: string; // User-facing name (e.g., "Default View")
   sort: SortRule[]; // Array to support multi-sort later
-  filter: FilterRule[]; // Array for filters
+  filter: FilterGroup; // Root filter group (AND/OR, may contain nested groups)
   hiddenColumns?: string[]; // Optional array of hidden column IDs
+  groupBy?: GroupRule; // Groups rows into collapsible sections
+  collapsedGroups?: string[]; // Keys of the groups collapsed in this view
+  showSummary?: boolean; // Show the summary (footer) row
+  aggregations?: { [columnId: string]: AggregationType }; // Summary row calculation per column
+}
+
+/** Creates an empty view definition with a fresh ID */
+export function createDefaultView(name: string = 'Default'): ViewDef {
+  return {
+    id: 'view_' + Date.now() + '_' + Math.random().toString(36).substring(2, 6),
+    name: name,
+    sort: [],
+    filter: createFilterGroup()
+  };
 }
 // --- End View Definitions ---
 
@@ -65,12 +130,65 @@ export interface NoteLinkTypeOptions {
   suggestAllFiles?: boolean;
 }
 
+// How number columns display their values
+export type NumberFormat =
+  | 'plain'    // 1234.5
+  | 'currency' // $1234.50 (prefix from currencySymbol)
+  | 'percent'; // 1234.5%
+
+// Options specific to Number columns
+export interface NumberTypeOptions {
+  numberFormat?: NumberFormat;
+  decimals?: number; // Fixed decimal places; undefined shows the value as entered
+  thousandsSeparator?: boolean; // 1,234 vs 1234
+  currencySymbol?: string; // Used when numberFormat is 'currency' (default '$')
+}
+
+// Options specific to Formula columns
+export interface FormulaTypeOptions {
+  formula?: string; // Expression source, e.g. prop("Price") * prop("Qty")
+}
+
+// Options specific to Relation columns; cells store comma-separated row IDs of the target table
+export interface RelationTypeOptions {
+  targetTable?: string; // Path of the linked .table.md / .table.json file
+  reciprocalColumnId?: string; // Relation column in the target table kept in sync with this one
+}
+
+// Ways to summarise a list of cell values into one (rollups and the summary row)
+export type AggregationType =
+  | 'count'          // Number of values (rows)
+  | 'countEmpty'
+  | 'countNotEmpty'
+  | 'countUnique'    // Number of distinct non-empty values
+  | 'sum'
+  | 'average'
+  | 'min'
+  | 'max'
+  | 'earliest'       // Dates
+  | 'latest'
+  | 'range'          // Days between the earliest and latest date
+  | 'percentChecked' // Checkboxes
+  | 'uniqueValues'   // Distinct values, splitting multi-select lists
+  | 'distribution';  // How often each value occurs (dropdown and multi-select)
+
+// Options specific to Rollup columns: aggregate one column of the rows linked through a relation column
+export interface RollupTypeOptions {
+  relationColumnId?: string; // Relation column in this table
+  targetColumnId?: string; // Column in the related table to aggregate
+  aggregation?: AggregationType;
+}
+
 // Union type encompassing all possible type-specific options
-// Add other interfaces here if types like 'number' get options
+// Add other interfaces here when new column types get options
 export type TypeOptions =
   | DateTypeOptions
   | SelectTypeOptions
   | NoteLinkTypeOptions
+  | NumberTypeOptions
+  | FormulaTypeOptions
+  | RelationTypeOptions
+  | RollupTypeOptions
   | {}; // Empty object for types with no options (text, checkbox)
 
 // --- Core Data Structures ---
@@ -79,7 +197,7 @@ export type TypeOptions =
 export interface ColumnDef {
   id: string; // Unique identifier for the column (e.g., "col_12345")
   name: string; // User-facing column header name
-  type: string; // Data type (e.g., "text", "date", "dropdown", "multiselect", "checkbox", "notelink")
+  type: string; // Data type (e.g., "text", "number", "date", "dropdown", "multiselect", "checkbox", "notelink", "formula", "relation", "rollup")
   width?: number; // Optional column width in pixels
   typeOptions?: TypeOptions; // Nested object for type-specific settings
 }
@@ -95,6 +213,7 @@ export interface TableData {
   columns: ColumnDef[]; // Array of column definitions
   rows: CellData[][]; // Array of rows, where each row is an array of cells
   views: ViewDef[]; // Array of view configurations (sort, filter, hidden columns)
+  syncMarkdownTable?: boolean; // .table.md only: keep a Markdown pipe table of the data below the JSON block
 }
 
 // --- Plugin Specific Constants and Settings ---
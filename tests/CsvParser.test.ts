@@ -0,0 +1,88 @@
+import { CsvParser, detectDelimiter, parseCsv, parseCsvFile } from '../src/csv/CsvParser';
+
+const fieldsOf = (text: string, delimiter?: string) => parseCsv(text, delimiter).records.map(record => record.fields);
+
+describe('parseCsv', () => {
+  it('splits records and fields', () => {
+    expect(fieldsOf('a,b\n1,2\n', ',')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('accepts \\r\\n and \\r line endings and a missing final line break', () => {
+    expect(fieldsOf('a,b\r\n1,2\r3,4', ',')).toEqual([['a', 'b'], ['1', '2'], ['3', '4']]);
+  });
+
+  it('keeps delimiters, line breaks and doubled quotes inside quoted fields', () => {
+    expect(fieldsOf('"a,b","line 1\nline 2","say ""hi"""\n', ',')).toEqual([['a,b', 'line 1\nline 2', 'say "hi"']]);
+  });
+
+  it('keeps empty quoted fields and trailing empty fields', () => {
+    expect(fieldsOf('"",x,\n', ',')).toEqual([['', 'x', '']]);
+  });
+
+  it('keeps text after a closing quote as-is', () => {
+    expect(fieldsOf('"a"b,c\n', ',')).toEqual([['ab', 'c']]);
+  });
+
+  it('treats quotes inside unquoted fields as text', () => {
+    expect(fieldsOf('5" screen,x\n', ',')).toEqual([['5" screen', 'x']]);
+  });
+
+  it('ignores a leading byte order mark', () => {
+    expect(fieldsOf('\uFEFFname\nAda\n', ',')).toEqual([['name'], ['Ada']]);
+  });
+
+  it('reports the line each record starts on, counting line breaks in quoted fields', () => {
+    const result = parseCsv('a\n"multi\nline"\nb\n', ',');
+    expect(result.records.map(record => record.line)).toEqual([1, 2, 4]);
+  });
+
+  it('flags a file that ends inside a quoted field', () => {
+    const result = parseCsv('a,"unfinished\nrest', ',');
+    expect(result.unterminatedQuote).toBe(true);
+    expect(result.records[0].fields).toEqual(['a', 'unfinished\nrest']);
+  });
+
+  it('detects the delimiter when none is given', () => {
+    const result = parseCsv('a;b\n1;2\n');
+    expect(result.delimiter).toBe(';');
+    expect(result.records[1].fields).toEqual(['1', '2']);
+  });
+});
+
+describe('CsvParser', () => {
+  it('gives the same records however the text is split into chunks', () => {
+    const text = 'name,note\r\n"Ada","says ""hi"",\nthen leaves"\r\nBob,x\r\n';
+    const expected = fieldsOf(text, ',');
+    for (let size = 1; size <= text.length; size++) {
+      const records: string[][] = [];
+      const parser = new CsvParser(',', fields => records.push(fields));
+      for (let i = 0; i < text.length; i += size) parser.write(text.substring(i, i + size));
+      parser.end();
+      expect(records).toEqual(expected);
+    }
+  });
+});
+
+describe('detectDelimiter', () => {
+  it('picks the separator that splits every line the same way', () => {
+    expect(detectDelimiter('a,b\n1,2\n')).toBe(',');
+    expect(detectDelimiter('a\tb\tc\n1\t2\t3\n')).toBe('\t');
+    expect(detectDelimiter('a|b\n1|2\n')).toBe('|');
+  });
+
+  it('ignores separators inside quoted fields', () => {
+    expect(detectDelimiter('name;amount\n"Smith, J.";"1,5"\n"Doe, A.";"2,0"\n')).toBe(';');
+  });
+
+  it('falls back to a comma for a single column', () => {
+    expect(detectDelimiter('name\nAda\n')).toBe(',');
+  });
+});
+
+describe('parseCsvFile', () => {
+  it('parses a file read as a stream', async () => {
+    const result = await parseCsvFile(new Blob(['\uFEFFname\tcity\n"Ada"\t"Zürich"\n']));
+    expect(result.delimiter).toBe('\t');
+    expect(result.records.map(record => record.fields)).toEqual([['name', 'city'], ['Ada', 'Zürich']]);
+  });
+});
@@ -0,0 +1,56 @@
+import { aggregateValues, getAggregationResultType } from '../src/aggregations';
+
+describe('aggregateValues', () => {
+  it('counts values, empty values and distinct values', () => {
+    const values = ['a', '', ' a ', 'b', '  '];
+    expect(aggregateValues(values, 'count')).toBe('5');
+    expect(aggregateValues(values, 'countEmpty')).toBe('2');
+    expect(aggregateValues(values, 'countNotEmpty')).toBe('3');
+    expect(aggregateValues(values, 'countUnique')).toBe('2');
+  });
+
+  it('calculates over the numbers, ignoring values that are not numbers', () => {
+    const values = ['1', '2.5', '', 'n/a', '-4'];
+    expect(aggregateValues(values, 'sum')).toBe('-0.5');
+    expect(aggregateValues(values, 'average')).toBe('-0.166666666667');
+    expect(aggregateValues(values, 'min')).toBe('-4');
+    expect(aggregateValues(values, 'max')).toBe('2.5');
+  });
+
+  it('hides floating point noise in sums', () => {
+    expect(aggregateValues(['0.1', '0.2'], 'sum')).toBe('0.3');
+  });
+
+  it('sums nothing to 0 but has no average, min or max', () => {
+    expect(aggregateValues([], 'sum')).toBe('0');
+    expect(aggregateValues(['', 'x'], 'average')).toBe('');
+    expect(aggregateValues([], 'min')).toBe('');
+  });
+
+  it('finds the earliest and latest dates and the range in days', () => {
+    const day = 24 * 60 * 60 * 1000;
+    const values = [String(10 * day), '', String(13 * day), String(11 * day)];
+    expect(aggregateValues(values, 'earliest')).toBe(String(10 * day));
+    expect(aggregateValues(values, 'latest')).toBe(String(13 * day));
+    expect(aggregateValues(values, 'range')).toBe('3');
+  });
+
+  it('gives the percentage of checked boxes', () => {
+    expect(aggregateValues(['true', 'false', 'true', ''], 'percentChecked')).toBe('50');
+    expect(aggregateValues([], 'percentChecked')).toBe('');
+  });
+
+  it('lists unique items and their distribution, most common first', () => {
+    const values = ['b,a', 'a', '', 'c, a', 'b'];
+    expect(aggregateValues(values, 'uniqueValues')).toBe('b,a,c');
+    expect(aggregateValues(values, 'distribution')).toBe('a: 3, b: 2, c: 1');
+  });
+});
+
+describe('getAggregationResultType', () => {
+  it('tells which aggregations produce dates, text or numbers', () => {
+    expect(getAggregationResultType('latest')).toBe('date');
+    expect(getAggregationResultType('distribution')).toBe('text');
+    expect(getAggregationResultType('range')).toBe('number');
+  });
+});
@@ -0,0 +1,136 @@
+import { parseCsv } from '../src/csv/CsvParser';
+import {
+  ImportColumn,
+  buildTableData,
+  convertValue,
+  detectColumnType,
+  mergeIntoTable,
+  prepareCsvImport
+} from '../src/csv/csvImport';
+import { ROW_ID_COLUMN } from '../src/rowIds';
+import { TableData, createDefaultView } from '../src/types';
+
+const prepare = (text: string) => prepareCsvImport(parseCsv(text, ','));
+
+describe('prepareCsvImport', () => {
+  it('uses the first record as the header and pads short rows', () => {
+    const data = prepare('name,city\nAda\n');
+    expect(data.headers).toEqual(['name', 'city']);
+    expect(data.rows).toEqual([['Ada', '']]);
+  });
+
+  it('names blank headers and makes duplicate names unique', () => {
+    expect(prepare('name,,name\n1,2,3\n').headers).toEqual(['name', 'Column 2', 'name 2']);
+  });
+
+  it('skips blank lines and rows with extra values, but not trailing empty fields', () => {
+    const data = prepare('a,b\n1,2,\n\n3,4,5\n');
+    expect(data.rows).toEqual([['1', '2']]);
+    expect(data.skipped).toEqual([
+      { line: 3, reason: 'empty line' },
+      { line: 4, reason: 'has 3 fields, expected 2' },
+    ]);
+  });
+
+  it('keeps quoted delimiters and line breaks in a single field', () => {
+    const data = prepare('name,note\n"Smith, J.","first\nsecond"\n');
+    expect(data.rows).toEqual([['Smith, J.', 'first\nsecond']]);
+    expect(data.skipped).toEqual([]);
+  });
+
+  it('warns when the file ends inside a quoted field', () => {
+    expect(prepare('a\n"open').warnings).toHaveLength(1);
+  });
+});
+
+describe('detectColumnType', () => {
+  it('suggests a type from the values', () => {
+    expect(detectColumnType(['1,234.5', '-3', '15%'])).toBe('number');
+    expect(detectColumnType(['yes', 'no', ''])).toBe('checkbox');
+    expect(detectColumnType(['[x]', '[ ]'])).toBe('checkbox');
+    expect(detectColumnType(['2024-01-31', '2024/02/01 10:30'])).toBe('date');
+    expect(detectColumnType(['[[Note]]', '[[Other|alias]]'])).toBe('notelink');
+    expect(detectColumnType(['Open', 'Done', 'Open'])).toBe('dropdown');
+    expect(detectColumnType(['a; b', 'b', 'a, c'])).toBe('multiselect');
+    expect(detectColumnType(['one', 'two', 'three'])).toBe('text');
+  });
+});
+
+describe('convertValue', () => {
+  it('converts fields to the stored format of the column type', () => {
+    expect(convertValue('$1,234.50', 'number')).toBe('1234.5');
+    expect(convertValue('Yes', 'checkbox')).toBe('true');
+    expect(convertValue('maybe', 'checkbox')).toBe('false');
+    expect(convertValue('2024-01-31', 'date')).toBe(new Date(2024, 0, 31).getTime().toString());
+    expect(convertValue('a; b ,c', 'multiselect')).toBe('a,b,c');
+    expect(convertValue('[[Folder/Note|Shown]]', 'notelink')).toBe('Folder/Note');
+  });
+
+  it('drops values the column type cannot hold', () => {
+    expect(convertValue('soon', 'date')).toBe('');
+    expect(convertValue('n/a', 'number')).toBe('');
+  });
+
+  it('keeps text as it is', () => {
+    expect(convertValue('  spaced\nout ', 'text')).toBe('  spaced\nout ');
+  });
+});
+
+describe('buildTableData', () => {
+  it('creates the columns, rows and options of a new table', () => {
+    const importData = prepare('Task,Status,Skip\nWrite,Open,x\nTest,Done,y\n');
+    const columns: ImportColumn[] = [
+      { sourceIndex: 0, name: 'Task', type: 'text' },
+      { sourceIndex: 1, name: 'Status', type: 'dropdown' },
+      { sourceIndex: 2, name: 'Skip', type: 'skip' },
+    ];
+    const data = buildTableData(importData, columns);
+    expect(data.columns.map(col => col.name)).toEqual(['Task', 'Status']);
+    expect(data.columns[1].typeOptions).toEqual({ options: [{ value: 'Open' }, { value: 'Done' }] });
+    expect(data.rows).toHaveLength(2);
+    expect(data.rows[0].map(cell => cell.value).slice(0, 2)).toEqual(['Write', 'Open']);
+    expect(data.rows[0].some(cell => cell.column === ROW_ID_COLUMN && cell.value !== '')).toBe(true);
+  });
+});
+
+describe('mergeIntoTable', () => {
+  const createTable = (): TableData => ({
+    columns: [
+      { id: 'name', name: 'Name', type: 'text' },
+      { id: 'count', name: 'Count', type: 'number' },
+    ],
+    rows: [[
+      { column: 'name', value: 'Ada' },
+      { column: 'count', value: '1' },
+      { column: ROW_ID_COLUMN, value: 'row_a' },
+    ]],
+    views: [createDefaultView()],
+  });
+  const mappings = [{ sourceIndex: 0, columnId: 'name' }, { sourceIndex: 1, columnId: 'count' }];
+
+  it('updates rows with a matching key and adds the others', () => {
+    const data = createTable();
+    const result = mergeIntoTable(data, prepare('Name,Count\nAda,5\nBob,2\n'), mappings,
+      { keyColumnId: 'name', overwriteWithBlanks: false });
+    expect(result).toEqual({ added: 1, updated: 1 });
+    expect(data.rows[0].find(cell => cell.column === 'count')?.value).toBe('5');
+    expect(data.rows[1].find(cell => cell.column === 'name')?.value).toBe('Bob');
+  });
+
+  it('leaves cells of updated rows alone where the field is empty, unless told to clear them', () => {
+    const kept = createTable();
+    mergeIntoTable(kept, prepare('Name,Count\nAda,\n'), mappings, { keyColumnId: 'name', overwriteWithBlanks: false });
+    expect(kept.rows[0].find(cell => cell.column === 'count')?.value).toBe('1');
+
+    const cleared = createTable();
+    mergeIntoTable(cleared, prepare('Name,Count\nAda,\n'), mappings, { keyColumnId: 'name', overwriteWithBlanks: true });
+    expect(cleared.rows[0].find(cell => cell.column === 'count')?.value).toBe('');
+  });
+
+  it('adds every row without a key column', () => {
+    const data = createTable();
+    expect(mergeIntoTable(data, prepare('Name,Count\nAda,5\n'), mappings, { keyColumnId: null, overwriteWithBlanks: false }))
+      .toEqual({ added: 1, updated: 0 });
+    expect(data.rows).toHaveLength(2);
+  });
+});
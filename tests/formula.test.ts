@@ -0,0 +1,107 @@
+import { computeFormula, renameFormulaReferences, validateFormula } from '../src/formula/FormulaEngine';
+import { FormulaError, parseFormula } from '../src/formula/FormulaParser';
+import { CellData, ColumnDef, TableData, createDefaultView } from '../src/types';
+
+const columns: ColumnDef[] = [
+  { id: 'price', name: 'Price', type: 'number' },
+  { id: 'qty', name: 'Qty', type: 'number' },
+  { id: 'done', name: 'Done', type: 'checkbox' },
+  { id: 'name', name: 'Name', type: 'text' },
+];
+const row: CellData[] = [
+  { column: 'price', value: '2.5' },
+  { column: 'qty', value: '0' },
+  { column: 'done', value: 'true' },
+  { column: 'name', value: 'Widget' },
+];
+
+/** Computes a formula against the row above, with extra formula columns it may refer to */
+function compute(formula: string, otherFormulas: Record<string, string> = {}) {
+  const formulaColumn = (name: string, source: string): ColumnDef =>
+    ({ id: `f_${name}`, name: name, type: 'formula', typeOptions: { formula: source } });
+  const column = formulaColumn('Result', formula);
+  const data: TableData = {
+    columns: columns.concat(column, Object.keys(otherFormulas).map(name => formulaColumn(name, otherFormulas[name]))),
+    rows: [row],
+    views: [createDefaultView()],
+  };
+  return computeFormula(data, row, column);
+}
+
+describe('computeFormula', () => {
+  it('evaluates arithmetic, comparisons and functions on column values', () => {
+    expect(compute('prop("Price") * 4 + 1').value).toBe(11);
+    expect(compute('if(prop("Done"), "yes", "no")').value).toBe('yes');
+    expect(compute('concat(upper(prop("Name")), "!")').value).toBe('WIDGET!');
+    expect(compute('round(10 / 3, 2)').value).toBe(3.33);
+  });
+
+  it('gives an empty value for an empty formula', () => {
+    expect(compute('')).toEqual({ value: null });
+  });
+
+  it('reports syntax errors', () => {
+    expect(compute('1 +').error).toBe('Formula ends unexpectedly');
+    expect(compute('"open').error).toBe('Unterminated string');
+    expect(compute('1 # 2').error).toBe('Unexpected character "#"');
+    expect(compute('Price * 2').error).toBe('Unknown name "Price" (use prop("Price") to refer to a column)');
+  });
+
+  it('reports unknown functions and wrong argument counts', () => {
+    expect(compute('sqrt(4)').error).toBe('Unknown function "sqrt"');
+    expect(compute('lower("a", "b")').error).toBe('lower() takes 1 argument');
+  });
+
+  it('reports errors while evaluating', () => {
+    expect(compute('prop("Price") / prop("Qty")').error).toBe('Division by zero');
+    expect(compute('prop("Missing")').error).toBe('Unknown column "Missing"');
+    expect(compute('prop("Name") * 2').error).toBe('"Widget" is not a number');
+    expect(compute('dateAdd(today(), 1, "fortnights")').error).toContain('unit must be one of');
+  });
+
+  it('reports circular references between formula columns', () => {
+    const result = compute('prop("A")', { A: 'prop("B")', B: 'prop("A")' });
+    expect(result.value).toBeNull();
+    expect(result.error).toMatch(/^Circular reference through "/);
+  });
+});
+
+describe('parseFormula', () => {
+  it('throws a FormulaError with the position of the problem', () => {
+    let error: unknown;
+    try {
+      parseFormula('1 + )');
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(FormulaError);
+    expect((error as FormulaError).position).toBe(4);
+  });
+});
+
+describe('validateFormula', () => {
+  const column = columns[0];
+
+  it('accepts a valid formula', () => {
+    expect(validateFormula('prop("Qty") * 2', columns, { id: 'f', name: 'F', type: 'formula' })).toEqual([]);
+  });
+
+  it('lists missing columns and references to the formula itself', () => {
+    expect(validateFormula('prop("Gone") + prop("Price")', columns, column)).toEqual([
+      'Column "Gone" does not exist (deleted or renamed?)',
+      'A formula cannot refer to its own column',
+    ]);
+  });
+
+  it('gives the position of syntax errors', () => {
+    expect(validateFormula('1 + )', columns, column)).toEqual(['Unexpected ")" (at character 5)']);
+  });
+});
+
+describe('renameFormulaReferences', () => {
+  it('rewrites prop() references to the renamed column', () => {
+    const formulaColumn: ColumnDef = { id: 'f', name: 'F', type: 'formula', typeOptions: { formula: "prop( 'Price' ) + prop(\"Qty\")" } };
+    renameFormulaReferences([formulaColumn], 'Price', 'Unit "price"');
+    expect(formulaColumn.typeOptions).toEqual({ formula: 'prop("Unit \\"price\\"") + prop("Qty")' });
+  });
+});
@@ -0,0 +1,86 @@
+import { ExportSource } from '../src/csv/csvExport';
+import { buildMarkdownTable, findPipeTable, parsePipeTable } from '../src/markdownTable';
+import { CellData, ColumnDef } from '../src/types';
+
+const columns: ColumnDef[] = [
+  { id: 'name', name: 'Name', type: 'text' },
+  { id: 'amount', name: 'Amount', type: 'number' },
+  { id: 'done', name: 'Done', type: 'checkbox' },
+  { id: 'link', name: 'Link', type: 'notelink' },
+  { id: 'tags', name: 'Tags', type: 'multiselect' },
+];
+
+/** A source whose displayed values are the stored ones */
+function createSource(rows: Record<string, string>[]): ExportSource {
+  const getValue = (row: CellData[], column: ColumnDef) => row.find(cell => cell.column === column.id)?.value || '';
+  return {
+    columns: columns,
+    rows: rows.map(values => Object.keys(values).map(id => ({ column: id, value: values[id] }))),
+    getRawValue: getValue,
+    getDisplayValue: getValue,
+  };
+}
+
+describe('buildMarkdownTable', () => {
+  it('writes a header, an aligned delimiter row and one line per row', () => {
+    const table = buildMarkdownTable(createSource([
+      { name: 'Ada', amount: '12', done: 'true', link: 'Notes/Ada', tags: 'a,b' },
+      { name: 'Bob', amount: '', done: 'false', link: '', tags: '' },
+    ]));
+    expect(table.split('\n')).toEqual([
+      '| Name | Amount | Done | Link | Tags |',
+      '| --- | ---: | --- | --- | --- |',
+      '| Ada | 12 | [x] | [[Notes/Ada]] | a, b |',
+      '| Bob |  | [ ] |  |  |',
+    ]);
+  });
+
+  it('escapes pipes and turns line breaks into <br>', () => {
+    const table = buildMarkdownTable(createSource([{ name: 'a | b\nc' }]));
+    expect(table.split('\n')[2]).toBe('| a \\| b<br>c |  | [ ] |  |  |');
+  });
+
+  it('returns nothing for a table without columns', () => {
+    expect(buildMarkdownTable({ ...createSource([]), columns: [] })).toBe('');
+  });
+});
+
+describe('findPipeTable', () => {
+  const lines = ['Intro | not a table', '', '| A | B |', '| --- | :-: |', '| 1 | 2 |', '', 'After'];
+
+  it('finds the whole table around the cursor line', () => {
+    expect(findPipeTable(lines, 4)).toEqual({ from: 2, to: 4 });
+    expect(findPipeTable(lines, 2)).toEqual({ from: 2, to: 4 });
+  });
+
+  it('ignores text with pipes that has no delimiter row', () => {
+    expect(findPipeTable(lines, 0)).toBeNull();
+    expect(findPipeTable(lines, 6)).toBeNull();
+  });
+});
+
+describe('parsePipeTable', () => {
+  it('reads the header and rows, leaving out the delimiter row', () => {
+    const result = parsePipeTable(['| A | B |', '|---|---|', '| 1 | 2 |'], 10);
+    expect(result.records).toEqual([
+      { fields: ['A', 'B'], line: 10 },
+      { fields: ['1', '2'], line: 12 },
+    ]);
+  });
+
+  it('unescapes pipes and turns <br> back into line breaks', () => {
+    const result = parsePipeTable(['| Link | Note |', '| --- | --- |', '| [[Note\\|alias]] | one<br>two |']);
+    expect(result.records[1].fields).toEqual(['[[Note|alias]]', 'one\ntwo']);
+  });
+
+  it('accepts rows without leading and trailing pipes and keeps empty cells', () => {
+    const result = parsePipeTable(['A | B | C', '--- | --- | ---', '1 |  | 3']);
+    expect(result.records.map(record => record.fields)).toEqual([['A', 'B', 'C'], ['1', '', '3']]);
+  });
+
+  it('reads back what buildMarkdownTable writes', () => {
+    const table = buildMarkdownTable(createSource([{ name: 'x | y\nz', amount: '3' }]));
+    const result = parsePipeTable(table.split('\n'));
+    expect(result.records[1].fields.slice(0, 2)).toEqual(['x | y\nz', '3']);
+  });
+});
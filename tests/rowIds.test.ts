@@ -0,0 +1,78 @@
+import {
+  ROW_ID_COLUMN,
+  assignRowIds,
+  createRowId,
+  ensureRowId,
+  findRowIndexById,
+  getRowId,
+  hasUnsavedRowIds,
+  markRowIdsSaved
+} from '../src/rowIds';
+import { CellData, TableData, createDefaultView } from '../src/types';
+
+const createTable = (ids: (string | null)[]): TableData => ({
+  columns: [{ id: 'name', name: 'Name', type: 'text' }],
+  rows: ids.map((id, index) => {
+    const row: CellData[] = [{ column: 'name', value: `Row ${index}` }];
+    if (id !== null) row.push({ column: ROW_ID_COLUMN, value: id });
+    return row;
+  }),
+  views: [createDefaultView()],
+});
+
+describe('createRowId', () => {
+  it('creates different IDs in the same millisecond', () => {
+    const ids = new Set(Array.from({ length: 1000 }, () => createRowId()));
+    expect(ids.size).toBe(1000);
+  });
+});
+
+describe('ensureRowId', () => {
+  it('keeps an existing ID and adds one where it is missing', () => {
+    const row: CellData[] = [{ column: ROW_ID_COLUMN, value: 'row_x' }];
+    expect(ensureRowId(row)).toBe('row_x');
+
+    const newRow: CellData[] = [{ column: 'name', value: 'A' }];
+    const id = ensureRowId(newRow);
+    expect(getRowId(newRow)).toBe(id);
+  });
+});
+
+describe('assignRowIds', () => {
+  it('gives rows without an ID and repeated IDs a unique one', () => {
+    const data = createTable(['row_a', null, 'row_a', 'row_1']);
+    assignRowIds(data);
+    const ids = data.rows.map(getRowId);
+    expect(ids[0]).toBe('row_a');
+    expect(ids[3]).toBe('row_1');
+    expect(new Set(ids).size).toBe(4);
+  });
+
+  it('assigns the same IDs every time the same file is read', () => {
+    const first = createTable([null, 'row_b', null]);
+    const second = createTable([null, 'row_b', null]);
+    assignRowIds(first);
+    assignRowIds(second);
+    expect(first.rows.map(getRowId)).toEqual(second.rows.map(getRowId));
+  });
+
+  it('marks the table as having unsaved IDs until it is saved', () => {
+    const complete = createTable(['row_a', 'row_b']);
+    assignRowIds(complete);
+    expect(hasUnsavedRowIds(complete)).toBe(false);
+
+    const migrated = createTable(['row_a', null]);
+    assignRowIds(migrated);
+    expect(hasUnsavedRowIds(migrated)).toBe(true);
+    markRowIdsSaved(migrated);
+    expect(hasUnsavedRowIds(migrated)).toBe(false);
+  });
+});
+
+describe('findRowIndexById', () => {
+  it('finds the stored position of a row', () => {
+    const data = createTable(['row_a', 'row_b']);
+    expect(findRowIndexById(data, 'row_b')).toBe(1);
+    expect(findRowIndexById(data, 'row_z')).toBe(-1);
+  });
+});